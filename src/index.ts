@@ -1,10 +1,30 @@
 export { useAudio } from './useAudio';
-export { useAsyncState } from './useAsyncState';
+export {
+	createFetchClient,
+	createQueryCache,
+	defaultRetryOn,
+	exponentialBackoff,
+	FetchClientProvider,
+	FetchError,
+	QueryCacheProvider,
+	queryCache,
+	useAsyncState,
+	useFetchClient,
+	useQueryCache,
+	ValidationError,
+} from './useAsyncState';
 export { useAutoScroll } from './useAutoScroll';
 export { useBarcode } from './useBarcode';
 export { useBatteryStatus } from './useBatteryStatus';
 export { useBodyScrollFreeze } from './useBodyScrollFreeze';
-export { useCookies } from './useCookies';
+export { useCookie } from './useCookie';
+export {
+	CookiesProvider,
+	createServerCookieJar,
+	parseCookieHeader,
+	serializeCookie,
+	useCookies,
+} from './useCookies';
 export { useCopyToClipboard } from './useCopyToClipboard';
 export { useCountDown } from './useCountDown';
 export { useDebouncedState } from './useDebouncedState';
@@ -13,7 +33,9 @@ export { useHoverIntent } from './useHoverIntent';
 export { useFile } from './useFile';
 export { useFullscreen } from './useFullScreen';
 export { useIdle } from './useIdle';
-export { useIndexedDB } from './useIndexedDB';
+export { keyRange, requestToPromise, useIndexedDB } from './useIndexedDB';
+export { useIndexedDBQuery } from './useIndexedDBQuery';
+export { useInfiniteAsyncState } from './useInfiniteAsyncState';
 export { useIntersectionObserver } from './useIntersectionObserver';
 export { useIntervalSafe } from './useIntervalSafe';
 export { useIsClient } from './useIsClient';
@@ -21,9 +43,11 @@ export { useIsDesktop } from './useIsDesktop';
 export { useIsFirstRender } from './useIsFirstRender';
 export { useList } from './useList';
 export { useLocalStorage } from './useLocalStorage';
+export { useMutation } from './useMutation';
 export { useNotifications } from './useNotifications';
 export { useObjectList } from './useObjectList';
 export { useNetworkInformation } from './useNetworkInformation';
+export { useOfflineQueue } from './useOfflineQueue';
 export { usePageVisibility } from './usePageVisibility';
 export { usePermissions } from './usePermissions';
 export { usePictureInPicture } from './usePictureInPicture';
@@ -36,10 +60,23 @@ export { useSensor } from './useSensor';
 export { useScreenOrientation } from './useScreenOrientation';
 export { useScreenSize } from './useScreenSize';
 export { useScreenWakeLock } from './useScreenWakeLock';
-export { useServerSentEvent } from './useServerSentEvent';
+export {
+	createFetchEventSource,
+	useServerSentEvent,
+} from './useServerSentEvent';
 export { useShoppingCart } from './useShoppingCart';
 export { useSmartVideo } from './useSmartVideo';
 export { useSpeech } from './useSpeech';
+export {
+	createCookieStorageAdapter,
+	createIndexedDBStorageAdapter,
+	createMemoryStorageAdapter,
+	createWebStorageAdapter,
+	localStorageAdapter,
+	moveStorageValue,
+	sessionStorageAdapter,
+	useStorage,
+} from './useStorage';
 export { useSummarizer } from './useSummarizer';
 export { useTaskQueue } from './useTaskQueue';
 export { useTimeout } from './useTimeout';
@@ -47,6 +84,8 @@ export { useThrottledCallback } from './useThrottledCallback';
 export { useTraceUpdates } from './useTraceUpdates';
 export { useTranslator } from './useTranslator';
 export { useToggle } from './useToggle';
+export { useUpload } from './useUpload';
 export { useUserActivation } from './useUserActivation';
 export { useVibration } from './useVibration';
 export { useWebsocket } from './useWebsocket';
+export { jsonRpcCodec, RpcError, useWebsocketRpc } from './useWebsocketRpc';
@@ -1,31 +1,134 @@
 import * as React from 'react';
+import { useIntervalSafe } from './useIntervalSafe';
+import { usePageVisibility } from './usePageVisibility';
 
-type AsyncState<T> = {
+type Listener = () => void;
+
+export type AsyncState<T> = {
 	data: T | null;
 	error: Error | null;
 	isLoading: boolean;
+	isFetching: boolean;
 	isSuccess: boolean;
 	isError: boolean;
 	isIdle: boolean;
+	dataUpdatedAt: number;
+	attempt: number;
+	partialData: T | null;
+	progress: FetchProgress | null;
 };
 
-type FetchConfig = RequestInit & {
+export interface FetchProgress {
+	/**
+	 * Bytes received so far.
+	 */
+	loaded: number;
+
+	/**
+	 * Total bytes expected (e.g. from `Content-Length`), or null when unknown.
+	 */
+	total: number | null;
+
+	/**
+	 * Percentage between 0 and 100, or null when the total is unknown.
+	 */
+	percent: number | null;
+}
+
+export type StreamMode = 'text' | 'ndjson';
+
+export type RetryDelay = number | ((attempt: number, error: Error) => number);
+
+export type ResponseParser =
+	| 'auto'
+	| 'json'
+	| 'text'
+	| 'blob'
+	| 'arrayBuffer'
+	| 'formData'
+	| 'ndjson'
+	| ((response: Response) => Promise<unknown>);
+
+export interface StandardSchemaV1Issue {
+	readonly message: string;
+	readonly path?:
+		| ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+		| undefined;
+}
+
+export type StandardSchemaV1Result<Output> =
+	| { readonly value: Output; readonly issues?: undefined }
+	| { readonly issues: ReadonlyArray<StandardSchemaV1Issue> };
+
+/**
+ * Minimal Standard Schema contract, implemented by Zod, Valibot, ArkType and others.
+ *
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly '~standard': {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown
+		) =>
+			| StandardSchemaV1Result<Output>
+			| Promise<StandardSchemaV1Result<Output>>;
+		readonly types?:
+			| { readonly input: Input; readonly output: Output }
+			| undefined;
+	};
+}
+
+export type FetchConfig = RequestInit & {
 	params?: Record<string, string | number | boolean>;
 	timeout?: number;
 	retries?: number;
-	retryDelay?: number;
+	retryDelay?: RetryDelay;
+	/**
+	 * Decides whether a failed attempt should be retried.
+	 * By default network errors, timeouts, 408, 429 and 5xx responses are retried.
+	 */
+	retryOn?: (error: Error, attempt: number) => boolean;
+	/**
+	 * How the response body is read.
+	 * `auto` picks JSON, text or blob from the `Content-Type` header.
+	 * @default 'auto'
+	 */
+	parse?: ResponseParser;
+	/**
+	 * Standard Schema validator applied to the parsed body.
+	 */
+	schema?: StandardSchemaV1;
+	/**
+	 * Custom validation of the parsed body. Throw to reject it, return the value to keep.
+	 */
+	validate?: (data: unknown) => unknown | Promise<unknown>;
+	/**
+	 * Reads the body incrementally and exposes it through `partialData` while it arrives.
+	 * `text` accumulates UTF-8 text, `ndjson` accumulates one parsed value per line.
+	 * The timeout only applies until the response headers are received.
+	 */
+	stream?: StreamMode;
+	/**
+	 * Called for every decoded text chunk (`text`) or parsed line (`ndjson`) of a stream.
+	 * NDJSON lines are not validated, so narrow the chunk before using it.
+	 */
+	onChunk?: (chunk: unknown) => void;
 	onSuccess?: (data: any) => void;
 	onError?: (error: Error) => void;
 };
 
 type UseAsyncStateReturn<T> = AsyncState<T> & {
+	isStale: boolean;
 	execute: (url: string, config?: FetchConfig) => Promise<T | null>;
 	reset: () => void;
+	cancel: () => void;
 	mutate: (data: T) => void;
 	retry: () => Promise<T | null>;
 };
 
-class FetchError extends Error {
+export class FetchError extends Error {
 	constructor(
 		message: string,
 		public status?: number,
@@ -37,10 +140,1170 @@ class FetchError extends Error {
 	}
 }
 
+export class ValidationError extends Error {
+	constructor(
+		message: string,
+		public issues: ReadonlyArray<StandardSchemaV1Issue> = [],
+		public data?: unknown
+	) {
+		super(message);
+		this.name = 'ValidationError';
+	}
+}
+
+/**
+ * Selects cache entries by key.
+ * A string matches every key that starts with it, including the `infinite:` keys of `useInfiniteAsyncState`.
+ * A function receives each key as stored.
+ */
+export type QueryFilter = string | ((key: string) => boolean);
+
+export interface QueryCacheOptions {
+	/**
+	 * Time in milliseconds an entry without subscribers is kept before it is garbage-collected.
+	 * @default 300000
+	 */
+	gcTime?: number;
+}
+
+export interface QueryFetchContext<T> {
+	/**
+	 * Aborted when the request is cancelled, evicted or superseded.
+	 */
+	signal: AbortSignal;
+
+	/**
+	 * Merges progress information into the entry state while the request is in flight.
+	 */
+	report: (patch: Partial<AsyncState<T>>) => void;
+}
+
+export interface QueryFetchOptions<T> {
+	/**
+	 * Data used to seed the entry when it does not exist yet.
+	 */
+	initialData?: T | null;
+
+	/**
+	 * Overrides the cache `gcTime` for this entry.
+	 */
+	gcTime?: number;
+
+	/**
+	 * Fetcher used when the entry is invalidated. Defaults to the fetcher itself.
+	 */
+	refetcher?: (context: QueryFetchContext<T>) => Promise<T>;
+}
+
+export interface QueryCache {
+	/**
+	 * Subscribes to changes of a single entry.
+	 * `initialData` seeds the entry when it does not exist yet, and is restored when it is removed.
+	 */
+	suscribe: (
+		key: string,
+		listener: Listener,
+		initialData?: unknown
+	) => () => void;
+
+	/**
+	 * Returns the current state of an entry, or undefined if it is not cached.
+	 */
+	getSnapshot: <T>(key: string) => AsyncState<T> | undefined;
+
+	/**
+	 * Whether the entry was invalidated and has not been fetched again since.
+	 */
+	isInvalidated: (key: string) => boolean;
+
+	/**
+	 * Runs the fetcher for a key.
+	 * Concurrent calls for the same key share the same in-flight promise.
+	 */
+	fetch: <T>(
+		key: string,
+		fetcher: (context: QueryFetchContext<T>) => Promise<T>,
+		options?: QueryFetchOptions<T>
+	) => Promise<T>;
+
+	/**
+	 * Writes data into an entry, creating it if needed.
+	 */
+	setData: <T>(key: string, data: T | null) => void;
+
+	/**
+	 * Marks the matching entries as invalidated.
+	 * Entries that are currently rendered are fetched again.
+	 */
+	invalidate: (filter?: QueryFilter) => Promise<void>;
+
+	/**
+	 * Aborts the in-flight request of an entry, if any.
+	 */
+	cancel: (key: string) => void;
+
+	/**
+	 * Removes the matching entries from the cache.
+	 */
+	evict: (filter?: QueryFilter) => void;
+
+	/**
+	 * Removes every entry from the cache.
+	 */
+	clear: () => void;
+
+	/**
+	 * Lists the keys currently stored.
+	 */
+	keys: () => string[];
+}
+
+interface QueryEntry {
+	state: AsyncState<unknown>;
+	previous: AsyncState<unknown>;
+	initialData: unknown;
+	promise: Promise<unknown> | null;
+	controller: AbortController | null;
+	refetch: (() => Promise<unknown>) | null;
+	isInvalidated: boolean;
+	listeners: Set<Listener>;
+	gcTime: number;
+	gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const privateKeyPrefix = 'private:';
+
+/**
+ * Prefix of the cache keys used by `useInfiniteAsyncState`.
+ */
+export const infiniteKeyPrefix = 'infinite:';
+
+export function createInitialState<T>(data: T | null): AsyncState<T> {
+	return {
+		data,
+		error: null,
+		isLoading: false,
+		isFetching: false,
+		isSuccess: false,
+		isError: false,
+		isIdle: true,
+		dataUpdatedAt: 0,
+		attempt: 0,
+		partialData: null,
+		progress: null,
+	};
+}
+
+function toError(err: unknown): Error {
+	return err instanceof Error ? err : new Error(String(err));
+}
+
+function matchesFilter(key: string, filter?: QueryFilter): boolean {
+	if (filter === undefined) return !key.startsWith(privateKeyPrefix);
+	if (typeof filter === 'function') return filter(key);
+	if (key === filter) return true;
+	if (key.startsWith(privateKeyPrefix)) return false;
+	const requestKey = key.startsWith(infiniteKeyPrefix)
+		? key.slice(infiniteKeyPrefix.length)
+		: key;
+	return requestKey.startsWith(filter);
+}
+
+/**
+ * `createQueryCache` creates an isolated store for `useAsyncState` entries.
+ * Pass it to `QueryCacheProvider` (or to the `cache` option) to keep caches apart, e.g. between tests.
+ *
+ * @param options Cache configuration.
+ *
+ * @returns A query cache.
+ *
+ * @example
+ * ```tsx
+ * const cache = createQueryCache({ gcTime: 60_000 });
+ *
+ * render(
+ *   <QueryCacheProvider cache={cache}>
+ *     <App />
+ *   </QueryCacheProvider>
+ * );
+ *
+ * await cache.invalidate('https://api.example.com/todos');
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function createQueryCache(options: QueryCacheOptions = {}): QueryCache {
+	const { gcTime: defaultGcTime = 5 * 60 * 1000 } = options;
+	const entries = new Map<string, QueryEntry>();
+
+	function notify(entry: QueryEntry) {
+		entry.listeners.forEach(listener => listener());
+	}
+
+	function update(entry: QueryEntry, patch: Partial<AsyncState<unknown>>) {
+		entry.state = { ...entry.state, ...patch };
+		notify(entry);
+	}
+
+	function scheduleGc(key: string, entry: QueryEntry) {
+		if (entry.gcTimer !== null) {
+			clearTimeout(entry.gcTimer);
+			entry.gcTimer = null;
+		}
+		if (entry.listeners.size > 0 || entry.promise) return;
+		entry.gcTimer = setTimeout(() => {
+			if (entry.listeners.size === 0 && !entry.promise) {
+				entries.delete(key);
+			}
+		}, entry.gcTime);
+	}
+
+	function ensure(key: string, initialData: unknown = null): QueryEntry {
+		let entry = entries.get(key);
+		if (!entry) {
+			const state = createInitialState(initialData);
+			entry = {
+				state,
+				previous: state,
+				initialData,
+				promise: null,
+				controller: null,
+				refetch: null,
+				isInvalidated: false,
+				listeners: new Set(),
+				gcTime: defaultGcTime,
+				gcTimer: null,
+			};
+			entries.set(key, entry);
+			scheduleGc(key, entry);
+		}
+		return entry;
+	}
+
+	function detach(entry: QueryEntry) {
+		const controller = entry.controller;
+		entry.promise = null;
+		entry.controller = null;
+		controller?.abort();
+	}
+
+	function cancel(key: string) {
+		const entry = entries.get(key);
+		if (!entry?.controller) return;
+		detach(entry);
+		update(entry, {
+			...entry.previous,
+			isLoading: false,
+			isFetching: false,
+			partialData: entry.state.partialData,
+			progress: entry.state.progress,
+		});
+		scheduleGc(key, entry);
+	}
+
+	function remove(key: string) {
+		const entry = entries.get(key);
+		if (!entry) return;
+		detach(entry);
+		entry.refetch = null;
+		entry.isInvalidated = false;
+		if (entry.listeners.size > 0) {
+			update(entry, createInitialState(entry.initialData));
+			return;
+		}
+		if (entry.gcTimer !== null) clearTimeout(entry.gcTimer);
+		entries.delete(key);
+	}
+
+	const cache: QueryCache = {
+		suscribe(key, listener, initialData) {
+			const entry = ensure(key, initialData);
+			entry.listeners.add(listener);
+			scheduleGc(key, entry);
+			return () => {
+				entry.listeners.delete(listener);
+				scheduleGc(key, entry);
+			};
+		},
+		getSnapshot<T>(key: string) {
+			return entries.get(key)?.state as AsyncState<T> | undefined;
+		},
+		isInvalidated(key) {
+			return entries.get(key)?.isInvalidated ?? false;
+		},
+		fetch<T>(
+			key: string,
+			fetcher: (context: QueryFetchContext<T>) => Promise<T>,
+			options: QueryFetchOptions<T> = {}
+		): Promise<T> {
+			const entry = ensure(key, options.initialData);
+			if (options.gcTime !== undefined) entry.gcTime = options.gcTime;
+			if (entry.promise) return entry.promise as Promise<T>;
+
+			const controller = new AbortController();
+			const isCurrent = () => entry.controller === controller;
+			entry.controller = controller;
+			entry.previous = entry.state;
+			entry.isInvalidated = false;
+			entry.refetch = () =>
+				cache.fetch(key, options.refetcher ?? fetcher, options);
+
+			const promise = fetcher({
+				signal: controller.signal,
+				report: patch => {
+					if (isCurrent()) update(entry, patch);
+				},
+			})
+				.then(data => {
+					if (isCurrent()) {
+						update(entry, {
+							data,
+							error: null,
+							isLoading: false,
+							isFetching: false,
+							isSuccess: true,
+							isError: false,
+							isIdle: false,
+							dataUpdatedAt: Date.now(),
+							partialData: null,
+						});
+					}
+					return data;
+				})
+				.catch((err: unknown) => {
+					const error = toError(err);
+					if (isCurrent()) {
+						update(
+							entry,
+							error.name === 'AbortError'
+								? { ...entry.previous, isLoading: false, isFetching: false }
+								: {
+										error,
+										isLoading: false,
+										isFetching: false,
+										isSuccess: false,
+										isError: true,
+									}
+						);
+					}
+					throw error;
+				})
+				.finally(() => {
+					if (!isCurrent()) return;
+					entry.promise = null;
+					entry.controller = null;
+					scheduleGc(key, entry);
+				});
+
+			entry.promise = promise;
+			update(entry, {
+				isLoading: !entry.state.isSuccess,
+				isFetching: true,
+				isIdle: false,
+				attempt: 1,
+				partialData: null,
+				progress: null,
+			});
+			return promise;
+		},
+		setData(key, data) {
+			const entry = ensure(key);
+			update(entry, { data, isIdle: false });
+		},
+		async invalidate(filter) {
+			const pending: Promise<unknown>[] = [];
+			entries.forEach((entry, key) => {
+				if (!matchesFilter(key, filter)) return;
+				entry.isInvalidated = true;
+				if (entry.listeners.size > 0 && entry.refetch) {
+					detach(entry);
+					pending.push(entry.refetch().catch(() => undefined));
+				}
+			});
+			await Promise.all(pending);
+		},
+		cancel,
+		evict(filter) {
+			Array.from(entries.keys())
+				.filter(key => matchesFilter(key, filter))
+				.forEach(remove);
+		},
+		clear() {
+			Array.from(entries.keys()).forEach(remove);
+		},
+		keys() {
+			return Array.from(entries.keys());
+		},
+	};
+
+	return cache;
+}
+
+/**
+ * Default cache shared by every `useAsyncState` rendered outside a `QueryCacheProvider`.
+ */
+export const queryCache = createQueryCache();
+
+const QueryCacheContext = React.createContext<QueryCache>(queryCache);
+
+export interface QueryCacheProviderProps {
+	/**
+	 * Cache used by the `useAsyncState` hooks rendered inside the provider.
+	 */
+	cache: QueryCache;
+	children?: React.ReactNode;
+}
+
+/**
+ * `QueryCacheProvider` scopes every `useAsyncState` rendered inside it to the given cache.
+ *
+ * @param props Provider props.
+ *
+ * @returns The provider element.
+ *
+ * @example
+ * ```tsx
+ * const cache = createQueryCache();
+ *
+ * <QueryCacheProvider cache={cache}>
+ *   <Dashboard />
+ * </QueryCacheProvider>
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function QueryCacheProvider({
+	cache,
+	children,
+}: QueryCacheProviderProps): React.ReactElement {
+	return React.createElement(
+		QueryCacheContext.Provider,
+		{ value: cache },
+		children
+	);
+}
+
+/**
+ * `useQueryCache` returns the cache used by `useAsyncState` in the current tree.
+ *
+ * @returns The closest provided cache, or the default one.
+ *
+ * @example
+ * ```tsx
+ * const cache = useQueryCache();
+ * const onSaved = () => cache.invalidate('https://api.example.com/todos');
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function useQueryCache(): QueryCache {
+	return React.useContext(QueryCacheContext);
+}
+
+export type FetchTransport = (request: Request) => Promise<Response>;
+
+export type RequestInterceptor = (
+	request: Request
+) => Request | Promise<Request>;
+
+export interface ResponseInterceptorContext {
+	/**
+	 * Request that produced the response, after the request interceptors ran.
+	 */
+	request: Request;
+
+	/**
+	 * Sends the original request (or a new one) again through the request interceptors and the transport.
+	 * Useful to retry after refreshing a token.
+	 */
+	replay: (request?: Request) => Promise<Response>;
+}
+
+export type ResponseInterceptor = (
+	response: Response,
+	context: ResponseInterceptorContext
+) => Response | Promise<Response>;
+
+export interface FetchClientOptions {
+	/**
+	 * Prefix applied to every relative URL.
+	 */
+	baseUrl?: string;
+
+	/**
+	 * Default headers. Headers passed to a request take precedence.
+	 */
+	headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+
+	interceptors?: {
+		/**
+		 * Run in order before the request is sent.
+		 */
+		request?: RequestInterceptor[];
+
+		/**
+		 * Run in order after the response is received.
+		 */
+		response?: ResponseInterceptor[];
+	};
+
+	/**
+	 * Called for every failed request made through the client, after the hook callbacks.
+	 */
+	onError?: (error: Error) => void;
+
+	/**
+	 * Function that actually sends the request. Defaults to the global `fetch`.
+	 * Useful to inject a mock transport in tests.
+	 */
+	fetch?: FetchTransport;
+}
+
+export interface FetchClient {
+	/**
+	 * Resolves a URL against the client `baseUrl`.
+	 */
+	resolveUrl: (url: string) => string;
+
+	/**
+	 * Sends a request through the interceptors and the transport.
+	 */
+	fetch: (url: string, init?: RequestInit) => Promise<Response>;
+
+	/**
+	 * Builds a request with the `baseUrl`, the default headers and the request interceptors, without sending it.
+	 * Used by requests that cannot go through `fetch`, such as uploads with progress.
+	 */
+	prepare: (url: string, init?: RequestInit) => Promise<Request>;
+
+	/**
+	 * Global error handler.
+	 */
+	onError?: ((error: Error) => void) | undefined;
+}
+
+const absoluteUrlPattern = /^[a-z][a-z\d+\-.]*:/i;
+
+/**
+ * `createFetchClient` creates a reusable fetch client with a base URL, default headers and interceptors.
+ * Provide it with `FetchClientProvider` (or the `client` option) so every `useAsyncState` uses it.
+ *
+ * @param options Client configuration.
+ *
+ * @returns A fetch client.
+ *
+ * @example
+ * ```tsx
+ * const client = createFetchClient({
+ *   baseUrl: 'https://api.example.com',
+ *   headers: { Accept: 'application/json' },
+ *   interceptors: {
+ *     request: [
+ *       request => {
+ *         request.headers.set('Authorization', `Bearer ${getToken()}`);
+ *         return request;
+ *       },
+ *     ],
+ *     response: [
+ *       async (response, { replay }) => {
+ *         if (response.status !== 401) return response;
+ *         await refreshToken();
+ *         return replay();
+ *       },
+ *     ],
+ *   },
+ *   onError: error => reportError(error),
+ * });
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function createFetchClient(
+	options: FetchClientOptions = {}
+): FetchClient {
+	const { baseUrl, headers, interceptors = {}, onError } = options;
+	const transport: FetchTransport =
+		options.fetch ?? (request => globalThis.fetch(request));
+
+	const resolveUrl = (url: string) => {
+		if (!baseUrl || absoluteUrlPattern.test(url)) return url;
+		return `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+	};
+
+	const intercept = async (request: Request) => {
+		let next = request;
+		for (const interceptor of interceptors.request ?? []) {
+			next = await interceptor(next);
+		}
+		return next;
+	};
+
+	const build = async (url: string, init: RequestInit) => {
+		const defaults = typeof headers === 'function' ? await headers() : headers;
+		const merged = new Headers(defaults);
+		new Headers(init.headers).forEach((value, key) => {
+			merged.set(key, value);
+		});
+		return new Request(resolveUrl(url), { ...init, headers: merged });
+	};
+
+	return {
+		resolveUrl,
+		async fetch(url, init = {}) {
+			const request = await build(url, init);
+			const prepared = await intercept(request.clone());
+			let response = await transport(prepared);
+
+			const context: ResponseInterceptorContext = {
+				request: prepared,
+				replay: async (next = request) =>
+					transport(await intercept(next.clone())),
+			};
+			for (const interceptor of interceptors.response ?? []) {
+				response = await interceptor(response, context);
+			}
+			return response;
+		},
+		async prepare(url, init = {}) {
+			return intercept(await build(url, init));
+		},
+		onError,
+	};
+}
+
+const defaultFetchClient = createFetchClient();
+
+const FetchClientContext = React.createContext<FetchClient>(defaultFetchClient);
+
+export interface FetchClientProviderProps {
+	/**
+	 * Client used by the `useAsyncState` hooks rendered inside the provider.
+	 */
+	client: FetchClient;
+	children?: React.ReactNode;
+}
+
+/**
+ * `FetchClientProvider` makes every `useAsyncState` rendered inside it send its requests through the given client.
+ *
+ * @param props Provider props.
+ *
+ * @returns The provider element.
+ *
+ * @example
+ * ```tsx
+ * <FetchClientProvider client={client}>
+ *   <App />
+ * </FetchClientProvider>
+ *
+ * // In tests, without patching globals
+ * const client = createFetchClient({
+ *   fetch: async () => Response.json({ id: '1', name: 'Sebas' }),
+ * });
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function FetchClientProvider({
+	client,
+	children,
+}: FetchClientProviderProps): React.ReactElement {
+	return React.createElement(
+		FetchClientContext.Provider,
+		{ value: client },
+		children
+	);
+}
+
+/**
+ * `useFetchClient` returns the fetch client used by `useAsyncState` in the current tree.
+ *
+ * @returns The closest provided client, or the default one.
+ *
+ * @example
+ * ```tsx
+ * const client = useFetchClient();
+ * const response = await client.fetch('/health');
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function useFetchClient(): FetchClient {
+	return React.useContext(FetchClientContext);
+}
+
+function buildUrl(
+	url: string,
+	params?: Record<string, string | number | boolean>
+): string {
+	if (!params || Object.keys(params).length === 0) return url;
+
+	// Built without `URL`, so relative URLs keep working outside a base URL.
+	const hashIndex = url.indexOf('#');
+	const path = hashIndex === -1 ? url : url.slice(0, hashIndex);
+	const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+	const search = new URLSearchParams(
+		Object.entries(params).map(([key, value]) => [key, value.toString()])
+	).toString();
+	const separator = !path.includes('?')
+		? '?'
+		: path.endsWith('?') || path.endsWith('&')
+			? ''
+			: '&';
+	return `${path}${separator}${search}${hash}`;
+}
+
+/**
+ * Builds the cache key of a request from its URL and params.
+ * Params are sorted so that the same request always maps to the same key.
+ */
+export function getQueryKey(
+	url: string,
+	params?: Record<string, string | number | boolean>
+): string {
+	if (!params) return url;
+	const sorted = Object.fromEntries(
+		Object.entries(params).sort(([a], [b]) => a.localeCompare(b))
+	);
+	return buildUrl(url, sorted);
+}
+
+function isCacheable(config?: FetchConfig): boolean {
+	const method = (config?.method ?? 'GET').toUpperCase();
+	return (method === 'GET' || method === 'HEAD') && config?.body == null;
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal.reason);
+		};
+		const timer = setTimeout(() => {
+			signal.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+function getRetryAfter(error: Error): number | null {
+	if (!(error instanceof FetchError)) return null;
+	if (error.status !== 429 && error.status !== 503) return null;
+	const header = error.response?.headers.get('Retry-After');
+	if (!header) return null;
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(header);
+	if (Number.isNaN(date)) return null;
+	return Math.max(0, date - Date.now());
+}
+
+/**
+ * Default `retryOn` predicate.
+ * Retries network errors, timeouts, 408, 429 and 5xx responses, never other 4xx responses, validation errors or aborts.
+ */
+export function defaultRetryOn(error: Error): boolean {
+	if (error.name === 'AbortError') return false;
+	if (error instanceof ValidationError) return false;
+	if (!(error instanceof FetchError) || error.status === undefined) {
+		return true;
+	}
+	return error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+export interface ExponentialBackoffOptions {
+	/**
+	 * Delay in milliseconds before the first retry.
+	 * @default 1000
+	 */
+	baseDelay?: number;
+
+	/**
+	 * Upper bound in milliseconds for a single delay.
+	 * @default 30000
+	 */
+	maxDelay?: number;
+
+	/**
+	 * Multiplier applied on every attempt.
+	 * @default 2
+	 */
+	factor?: number;
+
+	/**
+	 * Randomizes each delay between 0 and the computed value ("full jitter").
+	 * @default true
+	 */
+	jitter?: boolean;
+}
+
+/**
+ * `exponentialBackoff` creates a `retryDelay` strategy that grows exponentially with every attempt.
+ *
+ * @param options Backoff configuration.
+ *
+ * @returns A function of the attempt number that returns the delay in milliseconds.
+ *
+ * @example
+ * ```tsx
+ * execute('/api/report', {
+ *   retries: 5,
+ *   retryDelay: exponentialBackoff({ baseDelay: 500, maxDelay: 10_000 }),
+ *   retryOn: error => !(error instanceof FetchError) || error.status !== 404,
+ * });
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function exponentialBackoff(
+	options: ExponentialBackoffOptions = {}
+): (attempt: number) => number {
+	const {
+		baseDelay = 1000,
+		maxDelay = 30000,
+		factor = 2,
+		jitter = true,
+	} = options;
+	return attempt => {
+		const delay = Math.min(maxDelay, baseDelay * factor ** (attempt - 1));
+		return jitter ? Math.random() * delay : delay;
+	};
+}
+
+function getProgress(loaded: number, total: number | null): FetchProgress {
+	return {
+		loaded,
+		total,
+		percent: total ? Math.min(100, (loaded / total) * 100) : null,
+	};
+}
+
+async function readBlob<T>(
+	response: Response,
+	report: QueryFetchContext<T>['report']
+): Promise<Blob> {
+	const type = response.headers.get('Content-Type') ?? '';
+	if (!response.body) return response.blob();
+	const reader = response.body.getReader();
+	const total = Number(response.headers.get('Content-Length')) || null;
+	const chunks: Uint8Array<ArrayBuffer>[] = [];
+	let loaded = 0;
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			chunks.push(value);
+			loaded += value.byteLength;
+			report({ progress: getProgress(loaded, total) });
+		}
+	} finally {
+		reader.releaseLock();
+	}
+	return new Blob(chunks, { type });
+}
+
+async function parseResponse<T>(
+	response: Response,
+	parse: ResponseParser,
+	report: QueryFetchContext<T>['report']
+): Promise<unknown> {
+	if (typeof parse === 'function') return parse(response);
+	switch (parse) {
+		case 'json':
+			return response.json();
+		case 'text':
+			return response.text();
+		case 'blob':
+			return readBlob(response, report);
+		case 'arrayBuffer':
+			return response.arrayBuffer();
+		case 'formData':
+			return response.formData();
+		case 'ndjson': {
+			const text = await response.text();
+			return text
+				.split('\n')
+				.filter(line => line.trim() !== '')
+				.map(line => JSON.parse(line));
+		}
+		default: {
+			const contentType = response.headers.get('Content-Type');
+			if (contentType?.includes('application/json')) return response.json();
+			if (contentType?.includes('text/')) return response.text();
+			return readBlob(response, report);
+		}
+	}
+}
+
+async function validateData(
+	data: unknown,
+	config: FetchConfig | undefined
+): Promise<unknown> {
+	let value = data;
+	if (config?.schema) {
+		const result = await config.schema['~standard'].validate(value);
+		if (result.issues) {
+			const first = result.issues[0]?.message ?? 'Invalid response';
+			throw new ValidationError(
+				`Response validation failed: ${first}`,
+				result.issues,
+				data
+			);
+		}
+		value = result.value;
+	}
+	if (config?.validate) {
+		try {
+			value = await config.validate(value);
+		} catch (err: unknown) {
+			if (err instanceof ValidationError) throw err;
+			throw new ValidationError(toError(err).message, [], data);
+		}
+	}
+	return value;
+}
+
+async function readStream<T>(
+	response: Response,
+	mode: StreamMode,
+	onChunk: ((chunk: unknown) => void) | undefined,
+	report: QueryFetchContext<T>['report']
+): Promise<unknown> {
+	if (!response.body) {
+		throw new FetchError('Response has no readable body', response.status);
+	}
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	const total = Number(response.headers.get('Content-Length')) || null;
+	let loaded = 0;
+	let text = '';
+	let buffer = '';
+	const items: unknown[] = [];
+
+	const pushLines = (lines: string[]) => {
+		lines
+			.filter(line => line.trim() !== '')
+			.forEach(line => {
+				const item = JSON.parse(line);
+				items.push(item);
+				onChunk?.(item);
+			});
+	};
+
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			const chunk = done
+				? decoder.decode()
+				: decoder.decode(value, { stream: true });
+			if (value) loaded += value.byteLength;
+
+			if (mode === 'text') {
+				text += chunk;
+				if (chunk) onChunk?.(chunk);
+			} else {
+				buffer += chunk;
+				const lines = buffer.split('\n');
+				buffer = done ? '' : (lines.pop() ?? '');
+				pushLines(lines);
+			}
+
+			report({
+				partialData: (mode === 'text' ? text : [...items]) as T,
+				progress: getProgress(loaded, total),
+			});
+			if (done) break;
+		}
+	} finally {
+		reader.releaseLock();
+	}
+
+	return mode === 'text' ? text : items;
+}
+
+async function fetchOnce<T>(
+	client: FetchClient,
+	url: string,
+	config: FetchConfig | undefined,
+	context: QueryFetchContext<T>
+): Promise<T> {
+	const { signal } = context;
+	const {
+		params,
+		timeout = 30000,
+		retries: _retries,
+		retryDelay: _retryDelay,
+		retryOn: _retryOn,
+		parse = 'auto',
+		schema: _schema,
+		validate: _validate,
+		stream,
+		onChunk,
+		onSuccess: _onSuccess,
+		onError: _onError,
+		...fetchConfig
+	} = config || {};
+
+	const fullUrl = buildUrl(client.resolveUrl(url), params);
+
+	const controller = new AbortController();
+	const onAbort = () => controller.abort(signal.reason);
+	signal.addEventListener('abort', onAbort, { once: true });
+	const timer = setTimeout(() => {
+		controller.abort(new FetchError('Request timeout', undefined, 'Timeout'));
+	}, timeout);
+
+	try {
+		const response = await client.fetch(fullUrl, {
+			...fetchConfig,
+			signal: controller.signal,
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text().catch(() => response.statusText);
+			throw new FetchError(
+				errorText || `HTTP Error ${response.status}`,
+				response.status,
+				response.statusText,
+				response
+			);
+		}
+
+		if (stream) clearTimeout(timer);
+
+		const data = stream
+			? await readStream<T>(response, stream, onChunk, context.report)
+			: await parseResponse<T>(response, parse, context.report);
+		return (await validateData(data, config)) as T;
+	} finally {
+		clearTimeout(timer);
+		signal.removeEventListener('abort', onAbort);
+	}
+}
+
+/**
+ * Sends a request through the client, retrying, parsing and validating it according to the config.
+ */
+export async function performFetch<T>(
+	client: FetchClient,
+	url: string,
+	config: FetchConfig | undefined,
+	context: QueryFetchContext<T>
+): Promise<T> {
+	const {
+		retries = 0,
+		retryDelay = 1000,
+		retryOn = defaultRetryOn,
+	} = config || {};
+	const { signal, report } = context;
+
+	for (let attempt = 1; ; attempt++) {
+		report({ attempt });
+		try {
+			return await fetchOnce<T>(client, url, config, context);
+		} catch (err: unknown) {
+			const error = toError(err);
+			if (signal.aborted || attempt > retries || !retryOn(error, attempt)) {
+				throw error;
+			}
+			const delay =
+				getRetryAfter(error) ??
+				(typeof retryDelay === 'function'
+					? retryDelay(attempt, error)
+					: retryDelay);
+			await wait(delay, signal);
+		}
+	}
+}
+
 export interface UseAsyncStateOptions<T> {
 	initialData?: T | null;
 	onSuccess?: (data: T) => void;
 	onError?: (error: Error) => void;
+
+	/**
+	 * URL read from the shared cache on mount.
+	 * When the entry is empty, stale or invalidated, it is fetched automatically.
+	 */
+	url?: string;
+
+	/**
+	 * Request configuration used together with `url`.
+	 */
+	config?: FetchConfig;
+
+	/**
+	 * Cache to use instead of the one provided by `QueryCacheProvider`.
+	 */
+	cache?: QueryCache;
+
+	/**
+	 * Fetch client to use instead of the one provided by `FetchClientProvider`.
+	 */
+	client?: FetchClient;
+
+	/**
+	 * Time in milliseconds an unused entry of this hook stays in the cache.
+	 */
+	gcTime?: number;
+
+	/**
+	 * Time in milliseconds after a successful fetch during which the data is considered fresh.
+	 * Stale data keeps being rendered while it is refetched in the background.
+	 * @default 0
+	 */
+	staleTime?: number;
+
+	/**
+	 * Refetches stale data when the page becomes visible again.
+	 * @default false
+	 */
+	refetchOnWindowFocus?: boolean;
+
+	/**
+	 * Refetches stale data when the browser goes back online.
+	 * @default false
+	 */
+	refetchOnReconnect?: boolean;
+
+	/**
+	 * Refetches the data every given milliseconds while the page is visible.
+	 * @default false
+	 */
+	refetchInterval?: number | false;
 }
 
 /**
@@ -49,17 +1312,33 @@ export interface UseAsyncStateOptions<T> {
  *
  * @template T - The expected type of the response data.
  *
+ * Requests are stored in a shared query cache keyed by URL and params.
+ * Concurrent GET requests for the same key share a single in-flight promise, and
+ * hooks mounted later with the same `url` read the cached data right away.
+ * Requests with a body or a non-GET method stay private to the hook instance.
+ * Requests are sent through the `FetchClient` provided by `FetchClientProvider`, if any.
+ *
+ * Refetches never clear the current data: `isLoading` is only true while there is
+ * no successful data yet, whereas `isFetching` is true for every request in flight.
+ *
  * @param options - Configuration options for the hook.
  *
  * @returns An object containing the following properties:
  * - `data`: The fetched data or null
  * - `error`: Any error that occurred or null
- * - `isLoading`: True when a request is in progress
+ * - `isLoading`: True when a request is in progress and there is no data yet
+ * - `isFetching`: True when any request is in progress, including background refetches
  * - `isSuccess`: True when the last request succeeded
  * - `isError`: True when the last request failed
  * - `isIdle`: True when no request has been made yet
+ * - `isStale`: True when the data is older than `staleTime` or was invalidated
+ * - `dataUpdatedAt`: Timestamp of the last successful fetch
+ * - `attempt`: Number of the current (or last) attempt, starting at 1
+ * - `partialData`: Data accumulated so far while a `stream` request is in flight
+ * - `progress`: Bytes received (`loaded`/`total`/`percent`) of a `stream` or blob request
  * - `execute`: Function to trigger the fetch request
  * - `reset`: Function to reset all state to initial values
+ * - `cancel`: Function to abort the request in flight, keeping the current data
  * - `mutate`: Function to manually update the data (optimistic updates)
  * - `retry`: Function to retry the last failed request
  *
@@ -253,6 +1532,118 @@ export interface UseAsyncStateOptions<T> {
  * }
  * ```
  *
+ * @example
+ * ```tsx
+ * // Shared cache: both components render the same data from a single request
+ * function Avatar() {
+ *   const { data } = useAsyncState<User>({ url: '/api/me' });
+ *   return <img src={data?.avatarUrl} />;
+ * }
+ *
+ * function Greeting() {
+ *   const { data } = useAsyncState<User>({ url: '/api/me' });
+ *   const cache = useQueryCache();
+ *
+ *   return (
+ *     <button onClick={() => cache.invalidate('/api/me')}>
+ *       Hi {data?.name}, refresh
+ *     </button>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Stale-while-revalidate dashboard
+ * function Stats() {
+ *   const { data, isLoading, isFetching } = useAsyncState<Stats>({
+ *     url: '/api/stats',
+ *     staleTime: 30_000,
+ *     refetchOnWindowFocus: true,
+ *     refetchOnReconnect: true,
+ *     refetchInterval: 60_000,
+ *   });
+ *
+ *   if (isLoading) return <Spinner />;
+ *
+ *   return (
+ *     <section>
+ *       {isFetching && <small>Updating…</small>}
+ *       <StatsTable stats={data} />
+ *     </section>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Exponential backoff that skips client errors and honours Retry-After
+ * function Report() {
+ *   const { data, isFetching, attempt, execute } = useAsyncState<Report>();
+ *   const retries = 4;
+ *
+ *   const load = () =>
+ *     execute('/api/report', {
+ *       retries,
+ *       retryDelay: exponentialBackoff({ baseDelay: 500 }),
+ *       retryOn: (error) =>
+ *         !(error instanceof FetchError) || error.status !== 404,
+ *     });
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={load}>Load</button>
+ *       {isFetching && attempt > 1 && (
+ *         <span>Retrying ({attempt - 1}/{retries})</span>
+ *       )}
+ *     </div>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Validating the response against a Standard Schema (Zod, Valibot, ArkType...)
+ * const User = z.object({ id: z.string(), name: z.string() });
+ *
+ * function Profile() {
+ *   const { data, error } = useAsyncState<z.infer<typeof User>>({
+ *     url: '/api/me',
+ *     config: { parse: 'json', schema: User },
+ *   });
+ *
+ *   if (error instanceof ValidationError) {
+ *     return <p>Unexpected response: {error.issues[0]?.message}</p>;
+ *   }
+ *
+ *   return <p>{data?.name}</p>;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Streaming an LLM completion as it is generated
+ * function Completion({ prompt }: { prompt: string }) {
+ *   const { data, partialData, isFetching, execute, cancel } =
+ *     useAsyncState<string>();
+ *
+ *   const generate = () =>
+ *     execute('/api/complete', {
+ *       method: 'POST',
+ *       body: JSON.stringify({ prompt }),
+ *       stream: 'text',
+ *     });
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={generate}>Generate</button>
+ *       {isFetching && <button onClick={cancel}>Stop</button>}
+ *       <p>{isFetching ? partialData : data}</p>
+ *     </div>
+ *   );
+ * }
+ * ```
+ *
  * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
  *
  * @since 0.0.1
@@ -262,173 +1653,113 @@ export interface UseAsyncStateOptions<T> {
 export function useAsyncState<T>(
 	options?: UseAsyncStateOptions<T>
 ): UseAsyncStateReturn<T> {
-	const { initialData = null, onSuccess, onError } = options || {};
+	const {
+		initialData = null,
+		onSuccess,
+		onError,
+		url,
+		config,
+		gcTime,
+		staleTime = 0,
+		refetchOnWindowFocus = false,
+		refetchOnReconnect = false,
+		refetchInterval = false,
+	} = options || {};
 
-	const [state, setState] = React.useState<AsyncState<T>>({
-		data: initialData,
-		error: null,
-		isLoading: false,
-		isSuccess: false,
-		isError: false,
-		isIdle: true,
-	});
+	const contextCache = useQueryCache();
+	const cache = options?.cache ?? contextCache;
+	const contextClient = useFetchClient();
+	const client = options?.client ?? contextClient;
+
+	const privateKey = `${privateKeyPrefix}${React.useId()}`;
+	const declaredKey =
+		url && isCacheable(config)
+			? getQueryKey(client.resolveUrl(url), config?.params)
+			: null;
+	const [activeKey, setActiveKey] = React.useState<string>(
+		declaredKey ?? privateKey
+	);
+
+	const initialStateRef = React.useRef<AsyncState<T>>(
+		createInitialState(initialData)
+	);
+	const configRef = React.useRef(config);
+	configRef.current = config;
 
 	const lastRequestRef = React.useRef<{
 		url: string;
 		config: FetchConfig | undefined;
 	} | null>(null);
-	const abortControllerRef = React.useRef<AbortController | null>(null);
 
-	const buildUrl = React.useCallback(
-		(url: string, params?: Record<string, string | number | boolean>) => {
-			if (!params || Object.keys(params).length === 0) return url;
-
-			const urlObj = new URL(url);
-			Object.entries(params).forEach(([key, value]) => {
-				urlObj.searchParams.append(key, value.toString());
-			});
-			return urlObj.toString();
-		},
+	const suscribe = React.useCallback(
+		(listener: Listener) =>
+			cache.suscribe(activeKey, listener, initialStateRef.current.data),
+		[cache, activeKey]
+	);
+	const getSnapshot = React.useCallback(
+		() => cache.getSnapshot<T>(activeKey) ?? initialStateRef.current,
+		[cache, activeKey]
+	);
+	const getServerSnapshot = React.useCallback(
+		() => initialStateRef.current,
 		[]
 	);
 
-	const performFetch = React.useCallback(
-		async (
-			url: string,
-			config?: FetchConfig,
-			attemptNumber: number = 1
-		): Promise<T> => {
-			const {
-				params,
-				timeout = 30000,
-				retries = 0,
-				retryDelay = 1000,
-				onSuccess: configOnSuccess,
-				onError: configOnError,
-				...fetchConfig
-			} = config || {};
-
-			abortControllerRef.current = new AbortController();
-			const { signal } = abortControllerRef.current;
-
-			const fullUrl = buildUrl(url, params);
-
-			const timeoutPromise = new Promise<never>((_, reject) => {
-				setTimeout(() => {
-					abortControllerRef.current?.abort();
-					reject(new FetchError('Request timeout', undefined, 'Timeout'));
-				}, timeout);
-			});
-
-			try {
-				const response = (await Promise.race([
-					fetch(fullUrl, { ...fetchConfig, signal }),
-					timeoutPromise,
-				])) as Response;
-
-				if (!response.ok) {
-					const errorText = await response
-						.text()
-						.catch(() => response.statusText);
-					throw new FetchError(
-						errorText || `HTTP Error ${response.status}`,
-						response.status,
-						response.statusText,
-						response
-					);
-				}
-
-				const contentType = response.headers.get('Content-Type');
-				let data: T;
-
-				if (contentType?.includes('application/json')) {
-					data = await response.json();
-				} else if (contentType?.includes('text/')) {
-					data = (await response.text()) as T;
-				} else {
-					data = (await response.blob()) as T;
-				}
-
-				configOnSuccess?.(data);
-				onSuccess?.(data);
-				return data;
-			} catch (err: unknown) {
-				const error = err instanceof Error ? err : new Error(String(err));
-				if (attemptNumber <= retries && error.name !== 'AbortError') {
-					await new Promise(resolve => setTimeout(resolve, retryDelay));
-					return performFetch(url, config, attemptNumber + 1);
-				}
-				configOnError?.(error);
-				onError?.(error);
-				throw error;
-			}
-		},
-		[buildUrl, onSuccess, onError]
+	const state = React.useSyncExternalStore(
+		suscribe,
+		getSnapshot,
+		getServerSnapshot
 	);
 
 	const execute = React.useCallback(
 		async (url: string, config?: FetchConfig): Promise<T | null> => {
-			abortControllerRef.current?.abort();
+			const key = isCacheable(config)
+				? getQueryKey(client.resolveUrl(url), config?.params)
+				: privateKey;
 			lastRequestRef.current = { url, config };
+			setActiveKey(key);
 
-			setState(prev => ({
-				...prev,
-				isLoading: true,
-				isSuccess: false,
-				isError: false,
-				isIdle: false,
-				error: null,
-			}));
+			if (key === privateKey) cache.cancel(key);
 
 			try {
-				const data = await performFetch(url, config);
-				setState({
-					data,
-					error: null,
-					isLoading: false,
-					isSuccess: true,
-					isError: false,
-					isIdle: false,
-				});
+				const data = await cache.fetch<T>(
+					key,
+					context => performFetch<T>(client, url, config, context),
+					{ initialData, ...(gcTime !== undefined && { gcTime }) }
+				);
+				config?.onSuccess?.(data);
+				onSuccess?.(data);
 				return data;
 			} catch (err: unknown) {
-				const error = err instanceof Error ? err : new Error(String(err));
-				if (error.name !== 'AbortError') {
+				const error = toError(err);
+				if (error.name === 'AbortError') {
 					return null;
 				}
-				setState(prev => ({
-					...prev,
-					error,
-					isLoading: false,
-					isSuccess: false,
-					isError: true,
-				}));
+				config?.onError?.(error);
+				onError?.(error);
+				client.onError?.(error);
 				return null;
 			}
 		},
-		[performFetch]
+		[cache, client, privateKey, initialData, gcTime, onSuccess, onError]
 	);
 
 	const reset = React.useCallback(() => {
-		abortControllerRef.current?.abort();
+		cache.evict(privateKey);
 		lastRequestRef.current = null;
+		setActiveKey(privateKey);
+	}, [cache, privateKey]);
 
-		setState({
-			data: initialData,
-			error: null,
-			isLoading: false,
-			isSuccess: false,
-			isError: false,
-			isIdle: true,
-		});
-	}, [initialData]);
+	const cancel = React.useCallback(() => {
+		cache.cancel(activeKey);
+	}, [cache, activeKey]);
 
-	const mutate = React.useCallback((newData: T | null) => {
-		setState(prev => ({
-			...prev,
-			data: newData,
-		}));
-	}, []);
+	const mutate = React.useCallback(
+		(newData: T | null) => {
+			cache.setData<T>(activeKey, newData);
+		},
+		[cache, activeKey]
+	);
 
 	const retry = React.useCallback(async (): Promise<T | null> => {
 		if (!lastRequestRef.current) {
@@ -439,16 +1770,91 @@ export function useAsyncState<T>(
 		return execute(url, config);
 	}, [execute]);
 
+	const isStaleAt = React.useCallback(
+		(key: string, snapshot: AsyncState<T> | undefined, now: number) => {
+			if (!snapshot?.isSuccess || cache.isInvalidated(key)) return true;
+			return now - snapshot.dataUpdatedAt >= staleTime;
+		},
+		[cache, staleTime]
+	);
+
+	const [now, setNow] = React.useState<number>(() => Date.now());
+	const isStale =
+		!state.isIdle &&
+		isStaleAt(activeKey, state, Math.max(now, state.dataUpdatedAt));
+
+	React.useEffect(() => {
+		if (!state.isSuccess || !Number.isFinite(staleTime)) return;
+		const remaining = state.dataUpdatedAt + staleTime - Date.now();
+		if (remaining <= 0) return;
+		const timer = setTimeout(() => setNow(Date.now()), remaining);
+		return () => clearTimeout(timer);
+	}, [state.isSuccess, state.dataUpdatedAt, staleTime]);
+
+	const refetch = React.useCallback(
+		(onlyIfStale: boolean) => {
+			const request =
+				lastRequestRef.current ??
+				(url ? { url, config: configRef.current } : null);
+			if (!request || !isCacheable(request.config)) return;
+			const key = getQueryKey(
+				client.resolveUrl(request.url),
+				request.config?.params
+			);
+			if (
+				onlyIfStale &&
+				!isStaleAt(key, cache.getSnapshot<T>(key), Date.now())
+			) {
+				return;
+			}
+			execute(request.url, request.config);
+		},
+		[url, cache, client, isStaleAt, execute]
+	);
+
+	React.useEffect(() => {
+		if (!url || declaredKey === null) return;
+		setActiveKey(declaredKey);
+		const cached = cache.getSnapshot<T>(declaredKey);
+		if (!isStaleAt(declaredKey, cached, Date.now())) return;
+		execute(url, configRef.current);
+	}, [cache, declaredKey]);
+
+	const { isVisible } = usePageVisibility();
+	const wasVisibleRef = React.useRef(isVisible);
+
+	React.useEffect(() => {
+		const wasVisible = wasVisibleRef.current;
+		wasVisibleRef.current = isVisible;
+		if (refetchOnWindowFocus && isVisible && !wasVisible) refetch(true);
+	}, [isVisible, refetchOnWindowFocus, refetch]);
+
+	React.useEffect(() => {
+		if (!refetchOnReconnect || typeof window === 'undefined') return;
+		const onOnline = () => refetch(true);
+		window.addEventListener('online', onOnline);
+		return () => window.removeEventListener('online', onOnline);
+	}, [refetchOnReconnect, refetch]);
+
+	useIntervalSafe(
+		() => {
+			if (wasVisibleRef.current) refetch(false);
+		},
+		{ delay: refetchInterval === false ? null : refetchInterval }
+	);
+
 	React.useEffect(() => {
 		return () => {
-			abortControllerRef.current?.abort();
+			cache.cancel(privateKey);
 		};
-	}, []);
+	}, [cache, privateKey]);
 
 	return {
 		...state,
+		isStale,
 		execute,
 		reset,
+		cancel,
 		mutate,
 		retry,
 	};
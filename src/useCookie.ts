@@ -0,0 +1,170 @@
+import * as React from 'react';
+import {
+	CookieJarContext,
+	cookieChangeStore,
+	type UseCookieOptions,
+} from './useCookies';
+
+export interface UseCookieValueOptions<T> extends UseCookieOptions {
+	/**
+	 * Value returned when the cookie does not exist.
+	 */
+	fallback?: T;
+
+	/**
+	 * Converts a value into the cookie string.
+	 * @default JSON.stringify
+	 */
+	serialize?: (value: T) => string;
+
+	/**
+	 * Converts the cookie string back into a value.
+	 * Values that are not valid JSON are returned as plain strings by default.
+	 */
+	deserialize?: (raw: string) => T;
+
+	/**
+	 * Polling interval in milliseconds, used where the Cookie Store API is not available.
+	 * @default 1000
+	 */
+	pollInterval?: number;
+}
+
+export type UseCookieValueReturn<T> = [
+	value: T | null,
+	set: (value: T | ((prev: T | null) => T), options?: UseCookieOptions) => void,
+	remove: (options?: UseCookieOptions) => void,
+];
+
+function defaultDeserialize<T>(raw: string): T {
+	try {
+		return JSON.parse(raw) as T;
+	} catch {
+		return raw as T;
+	}
+}
+
+/**
+ * `useCookie` is a React hook that keeps a single cookie in React state.
+ * It re-renders when the cookie changes through this library, through `cookieStore` change events
+ * where the Cookie Store API exists, or by polling `document.cookie` elsewhere.
+ *
+ * Values are stored as JSON, so any serializable value can be used.
+ * Inside a `CookiesProvider` the server render reads the request cookies, so hydration matches.
+ *
+ * @template T Type of the cookie value.
+ * @param name Cookie name. Must be a valid cookie token.
+ * @param options Default cookie attributes and serialization options.
+ *
+ * @returns `[value, set, remove]`.
+ *
+ * @example
+ * ```tsx
+ * function CurrencySelect() {
+ *   const [prefs, setPrefs, removePrefs] = useCookie<{ currency: string }>('prefs', {
+ *     fallback: { currency: 'USD' },
+ *     path: '/',
+ *     maxAge: 60 * 60 * 24 * 365,
+ *     sameSite: 'lax',
+ *   });
+ *
+ *   return (
+ *     <select
+ *       value={prefs?.currency}
+ *       onChange={e => setPrefs({ currency: e.target.value })}
+ *     >
+ *       <option>USD</option>
+ *       <option>PEN</option>
+ *     </select>
+ *   );
+ * }
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function useCookie<T>(
+	name: string,
+	options: UseCookieValueOptions<T> = {}
+): UseCookieValueReturn<T> {
+	const { pollInterval = 1000 } = options;
+	const fallback = options.fallback ?? null;
+
+	const jar = React.useContext(CookieJarContext);
+
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	const suscribe = React.useCallback(
+		(listener: () => void) =>
+			cookieChangeStore.suscribe(name, listener, pollInterval),
+		[name, pollInterval]
+	);
+	const getSnapshot = React.useCallback(
+		() => cookieChangeStore.getSnapshot(name),
+		[name]
+	);
+
+	// Reads the request cookies on the server, and `document.cookie` while hydrating.
+	const getServerSnapshot = React.useCallback(() => jar.get(name), [jar, name]);
+
+	const raw = React.useSyncExternalStore(
+		suscribe,
+		getSnapshot,
+		getServerSnapshot
+	);
+
+	const value = React.useMemo((): T | null => {
+		if (raw === null) return fallback;
+		const { deserialize = defaultDeserialize<T> } = optionsRef.current;
+		try {
+			return deserialize(raw);
+		} catch {
+			return fallback;
+		}
+	}, [raw, fallback]);
+
+	const valueRef = React.useRef(value);
+	valueRef.current = value;
+
+	const getAttributes = React.useCallback(
+		(overrides: UseCookieOptions = {}): UseCookieOptions => {
+			const {
+				fallback: _fallback,
+				serialize: _serialize,
+				deserialize: _deserialize,
+				pollInterval: _pollInterval,
+				...attributes
+			} = optionsRef.current;
+			return { ...attributes, ...overrides };
+		},
+		[]
+	);
+
+	const set = React.useCallback(
+		(next: T | ((prev: T | null) => T), overrides?: UseCookieOptions) => {
+			const resolved =
+				typeof next === 'function'
+					? (next as (prev: T | null) => T)(valueRef.current)
+					: next;
+			const { serialize = JSON.stringify } = optionsRef.current;
+			jar.set(name, serialize(resolved), getAttributes(overrides));
+		},
+		[jar, name, getAttributes]
+	);
+
+	const remove = React.useCallback(
+		(overrides?: UseCookieOptions) => {
+			jar.remove(name, getAttributes(overrides));
+		},
+		[jar, name, getAttributes]
+	);
+
+	return React.useMemo(
+		(): UseCookieValueReturn<T> => [value, set, remove],
+		[value, set, remove]
+	);
+}
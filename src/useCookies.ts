@@ -7,6 +7,21 @@ export interface UseCookieOptions {
 	expires?: Date;
 	secure?: boolean;
 	sameSite?: 'strict' | 'lax' | 'none';
+
+	/**
+	 * Stores the cookie in a partitioned jar (CHIPS). Implies `secure`.
+	 */
+	partitioned?: boolean;
+
+	/**
+	 * Eviction priority hint.
+	 */
+	priority?: 'low' | 'medium' | 'high';
+
+	/**
+	 * Hides the cookie from scripts. Only honoured in `Set-Cookie` headers written on the server.
+	 */
+	httpOnly?: boolean;
 }
 
 export interface UseCookieReturn {
@@ -29,11 +44,332 @@ export interface UseCookieReturn {
 	 * Reads all cookies as a key-value map.
 	 */
 	getAll: () => Record<string, string>;
+
+	/**
+	 * Reads a cookie and parses it as JSON. Returns `null` when missing or invalid.
+	 */
+	getJSON: <T>(name: string) => T | null;
+
+	/**
+	 * Serializes a value as JSON and stores it in a cookie.
+	 */
+	setJSON: <T>(name: string, value: T, options?: UseCookieOptions) => void;
+}
+
+type Listener = () => void;
+
+/**
+ * Maximum size of a cookie (name and value) accepted by browsers.
+ */
+export const MAX_COOKIE_SIZE = 4096;
+
+const COOKIE_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+const COOKIE_ATTRIBUTE_PATTERN = /^[^\u0000-\u001f\u007f;]*$/;
+
+/**
+ * Whether `name` is a valid cookie name (an RFC 6265 token).
+ */
+export function isValidCookieName(name: string): boolean {
+	return COOKIE_NAME_PATTERN.test(name);
+}
+
+const cookieListeners = new Map<string, Set<Listener>>();
+
+function emitCookieChange(name: string) {
+	cookieListeners.get(name)?.forEach(listener => listener());
+}
+
+/**
+ * Notifies cookie changes. Uses `cookieStore` change events where available,
+ * and polls `document.cookie` elsewhere. Writes made through this module are notified immediately.
+ */
+export const cookieChangeStore = {
+	suscribe(name: string, listener: Listener, pollInterval = 1000) {
+		const nameListeners = cookieListeners.get(name) ?? new Set<Listener>();
+		nameListeners.add(listener);
+		cookieListeners.set(name, nameListeners);
+
+		const unsuscribe = () => {
+			nameListeners.delete(listener);
+			if (nameListeners.size === 0) cookieListeners.delete(name);
+		};
+
+		if (typeof window === 'undefined') return unsuscribe;
+
+		if ('cookieStore' in window) {
+			const onChange = (event: CookieChangeEvent) => {
+				const changed = [...event.changed, ...event.deleted];
+				if (changed.some(cookie => cookie.name === name)) listener();
+			};
+			window.cookieStore.addEventListener('change', onChange);
+			return () => {
+				unsuscribe();
+				window.cookieStore.removeEventListener('change', onChange);
+			};
+		}
+
+		let last = readCookie(name);
+		const interval = setInterval(() => {
+			const current = readCookie(name);
+			if (current === last) return;
+			last = current;
+			listener();
+		}, pollInterval);
+		return () => {
+			unsuscribe();
+			clearInterval(interval);
+		};
+	},
+	getSnapshot(name: string): string | null {
+		return readCookie(name);
+	},
+	getServerSnapshot(): string | null {
+		return null;
+	},
+};
+
+function isCookieSupported(): boolean {
+	return (
+		typeof document !== 'undefined' && typeof document.cookie !== 'undefined'
+	);
+}
+
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Parses a `Cookie` header (or `document.cookie`) into a key-value map.
+ */
+export function parseCookieHeader(
+	header: string | null | undefined
+): Record<string, string> {
+	if (!header) return {};
+	return header.split(';').reduce<Record<string, string>>((acc, cookie) => {
+		const [rawKey = '', ...rest] = cookie.split('=');
+		const key = rawKey.trim();
+		if (!key || key in acc) return acc;
+		const value = rest.join('=').trim();
+		try {
+			acc[key] = decodeURIComponent(value);
+		} catch {
+			acc[key] = value;
+		}
+		return acc;
+	}, {});
+}
+
+/**
+ * Serializes a cookie into a `Set-Cookie` string (RFC 6265bis).
+ * Throws a `TypeError` for invalid names or attributes and warns when the cookie exceeds 4KB.
+ */
+export function serializeCookie(
+	name: string,
+	value: string,
+	options: UseCookieOptions = {}
+): string {
+	if (!isValidCookieName(name)) {
+		throw new TypeError(`Invalid cookie name: "${name}".`);
+	}
+	if (typeof value !== 'string') {
+		throw new TypeError(`Invalid value for cookie "${name}".`);
+	}
+	for (const attribute of [options.path, options.domain]) {
+		if (attribute !== undefined && !COOKIE_ATTRIBUTE_PATTERN.test(attribute)) {
+			throw new TypeError(`Invalid attribute for cookie "${name}".`);
+		}
+	}
+	const encoded = encodeURIComponent(value);
+	if (name.length + encoded.length > MAX_COOKIE_SIZE) {
+		console.warn(
+			`Cookie "${name}" is ${name.length + encoded.length} bytes and exceeds the ${MAX_COOKIE_SIZE} bytes limit. Browsers may ignore it.`
+		);
+	}
+	let cookie = `${name}=${encoded}`;
+	if (options.maxAge !== undefined) {
+		cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+	}
+	if (options.expires !== undefined) {
+		cookie += `; Expires=${options.expires.toUTCString()}`;
+	}
+	if (options.domain) cookie += `; Domain=${options.domain}`;
+	if (options.path) cookie += `; Path=${options.path}`;
+	if (options.secure || options.partitioned) cookie += '; Secure';
+	if (options.httpOnly) cookie += '; HttpOnly';
+	if (options.sameSite) cookie += `; SameSite=${capitalize(options.sameSite)}`;
+	if (options.partitioned) cookie += '; Partitioned';
+	if (options.priority) cookie += `; Priority=${capitalize(options.priority)}`;
+	return cookie;
+}
+
+/**
+ * Reads a cookie value from `document.cookie`.
+ */
+export function readCookie(name: string): string | null {
+	if (!isCookieSupported()) return null;
+	return parseCookieHeader(document.cookie)[name] ?? null;
+}
+
+/**
+ * Reads every cookie from `document.cookie` as a key-value map.
+ */
+export function readAllCookies(): Record<string, string> {
+	if (!isCookieSupported()) return {};
+	return parseCookieHeader(document.cookie);
+}
+
+/**
+ * Writes a cookie to `document.cookie`.
+ */
+export function writeCookie(
+	name: string,
+	value: string,
+	options: UseCookieOptions = {}
+): void {
+	if (!isCookieSupported()) return;
+	// Browsers drop cookies marked HttpOnly when written from scripts.
+	const { httpOnly: _httpOnly, ...attributes } = options;
+	document.cookie = serializeCookie(name, value, attributes);
+	emitCookieChange(name);
+}
+
+/**
+ * Source of cookies used by `useCookies` and `useCookie`.
+ */
+export interface CookieJar {
+	get(name: string): string | null;
+	getAll(): Record<string, string>;
+	set(name: string, value: string, options?: UseCookieOptions): void;
+	remove(name: string, options?: UseCookieOptions): void;
+}
+
+export interface ServerCookieJar extends CookieJar {
+	/**
+	 * `Set-Cookie` header values produced by the writes made during the render.
+	 */
+	getSetCookieHeaders(): string[];
+}
+
+/**
+ * Cookie jar backed by `document.cookie`, used outside a `CookiesProvider`.
+ */
+export const documentCookieJar: CookieJar = {
+	get: readCookie,
+	getAll: readAllCookies,
+	set: writeCookie,
+	remove(name, options = {}) {
+		writeCookie(name, '', { ...options, maxAge: 0 });
+	},
+};
+
+/**
+ * Creates a cookie jar for a server request from its raw `Cookie` header.
+ * Writes update the jar, so later reads in the same render see them, and are collected as `Set-Cookie` headers.
+ */
+export function createServerCookieJar(
+	cookieHeader?: string | null
+): ServerCookieJar {
+	const cookies = parseCookieHeader(cookieHeader);
+	const setCookies = new Map<string, string>();
+
+	const write = (name: string, value: string, options: UseCookieOptions) => {
+		const header = serializeCookie(name, value, options);
+		setCookies.set(
+			`${name};${options.domain ?? ''};${options.path ?? ''}`,
+			header
+		);
+	};
+
+	return {
+		get(name) {
+			return cookies[name] ?? null;
+		},
+		getAll() {
+			return { ...cookies };
+		},
+		set(name, value, options = {}) {
+			write(name, value, options);
+			cookies[name] = value;
+		},
+		remove(name, options = {}) {
+			write(name, '', {
+				...options,
+				maxAge: 0,
+				expires: new Date(0),
+			});
+			delete cookies[name];
+		},
+		getSetCookieHeaders() {
+			return Array.from(setCookies.values());
+		},
+	};
+}
+
+export const CookieJarContext =
+	React.createContext<CookieJar>(documentCookieJar);
+
+export interface CookiesProviderProps {
+	/**
+	 * Cookie jar used by the hooks rendered inside the provider.
+	 * Defaults to `document.cookie`.
+	 */
+	jar?: CookieJar;
+	children?: React.ReactNode;
+}
+
+/**
+ * `CookiesProvider` makes `useCookies` and `useCookie` read and write through the given cookie jar.
+ * On the server, pass a jar created from the request `Cookie` header and send its `Set-Cookie` headers
+ * with the response. On the client, render it without a jar.
+ *
+ * @param props Provider props.
+ *
+ * @returns The provider element.
+ *
+ * @example
+ * ```tsx
+ * // server.tsx
+ * const jar = createServerCookieJar(request.headers.get('cookie'));
+ * const html = renderToString(
+ *   <CookiesProvider jar={jar}>
+ *     <App />
+ *   </CookiesProvider>
+ * );
+ * const headers = new Headers({ 'Content-Type': 'text/html' });
+ * jar.getSetCookieHeaders().forEach(cookie => headers.append('Set-Cookie', cookie));
+ * return new Response(html, { headers });
+ *
+ * // client.tsx
+ * hydrateRoot(
+ *   root,
+ *   <CookiesProvider>
+ *     <App />
+ *   </CookiesProvider>
+ * );
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function CookiesProvider({
+	jar = documentCookieJar,
+	children,
+}: CookiesProviderProps): React.ReactElement {
+	return React.createElement(
+		CookieJarContext.Provider,
+		{ value: jar },
+		children
+	);
 }
 
 /**
  * `useCookies` is a React hook that provides unopinionated access to document cookies.
- * This hook does not sync cookies to React state and does not perform encoding beyond basic string handling.
+ * This hook does not sync cookies to React state; use `useCookie` for a reactive value.
+ * Inside a `CookiesProvider` it reads and writes through the provided jar, so it also works during server rendering.
+ * Names must be valid cookie tokens, and a warning is logged when a cookie exceeds 4KB.
  *
  * @returns Cookie helpers.
  *
@@ -42,6 +378,9 @@ export interface UseCookieReturn {
  *  const cookies = useCookies();
  * cookies.set('token', 'abc', { secure: true });
  * const token = cookies.get('token');
+ *
+ * cookies.setJSON('prefs', { currency: 'PEN' }, { path: '/' });
+ * const prefs = cookies.getJSON<{ currency: string }>('prefs');
  * ```
  *
  * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
@@ -51,69 +390,52 @@ export interface UseCookieReturn {
  *
  */
 export function useCookies(): UseCookieReturn {
-	const isSupported =
-		typeof document !== 'undefined' && typeof document.cookie !== 'undefined';
-	const get = React.useCallback(
-		(name: string) => {
-			if (!isSupported) return null;
-			const cookies = document.cookie.split('; ');
-			for (const cookie of cookies) {
-				const [key, ...rest] = cookie.split('=');
-				if (key === name) {
-					return decodeURIComponent(rest.join('='));
-				}
-			}
-			return null;
-		},
-		[isSupported]
-	);
+	const jar = React.useContext(CookieJarContext);
+
+	const get = React.useCallback((name: string) => jar.get(name), [jar]);
 
 	const set = React.useCallback(
 		(name: string, value: string, options: UseCookieOptions = {}) => {
-			if (!isSupported) return;
-			let cookie = `${name}=${encodeURIComponent(value)}`;
-			if (options.maxAge !== undefined) {
-				cookie += `; max-age=${options.maxAge}`;
-			}
-			if (options.expires !== undefined) {
-				cookie += `; expires=${options.expires.toUTCString()}`;
-			}
-			if (options.path) cookie += `; path=${options.path}`;
-			if (options.domain) cookie += `; domain=${options.domain}`;
-			if (options.secure) cookie += '; secure';
-			if (options.sameSite) cookie += `; samesite=${options.sameSite}`;
-			document.cookie = cookie;
+			jar.set(name, value, options);
 		},
-		[isSupported]
+		[jar]
 	);
 
 	const remove = React.useCallback(
 		(name: string, options: UseCookieOptions = {}) => {
-			set(name, '', {
-				...options,
-				maxAge: 0,
-			});
+			jar.remove(name, options);
 		},
-		[set]
+		[jar]
 	);
 
-	const getAll = React.useCallback(() => {
-		if (!isSupported) return {};
-		return document.cookie
-			.split('; ')
-			.filter(Boolean)
-			.reduce<Record<string, string>>((acc, cookie) => {
-				const [key, ...rest] = cookie.split('=');
-				if (!key) return acc;
-				acc[key] = decodeURIComponent(rest.join('='));
-				return acc;
-			}, {});
-	}, [isSupported]);
+	const getAll = React.useCallback(() => jar.getAll(), [jar]);
+
+	const getJSON = React.useCallback(
+		<T>(name: string): T | null => {
+			const raw = jar.get(name);
+			if (raw === null) return null;
+			try {
+				return JSON.parse(raw) as T;
+			} catch {
+				return null;
+			}
+		},
+		[jar]
+	);
+
+	const setJSON = React.useCallback(
+		<T>(name: string, value: T, options: UseCookieOptions = {}) => {
+			jar.set(name, JSON.stringify(value), options);
+		},
+		[jar]
+	);
 
 	return {
 		get,
 		set,
 		remove,
 		getAll,
+		getJSON,
+		setJSON,
 	};
 }
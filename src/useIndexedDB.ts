@@ -1,5 +1,58 @@
 import * as React from 'react';
 
+export interface IndexedDBIndexDefinition {
+	keyPath: string | string[];
+	unique?: boolean;
+	multiEntry?: boolean;
+}
+
+export interface IndexedDBStoreDefinition {
+	keyPath?: string | string[] | null;
+	autoIncrement?: boolean;
+}
+
+export interface IndexedDBMigrationContext {
+	db: IDBDatabase;
+	oldVersion: number;
+	version: number;
+}
+
+export interface IndexedDBSchemaVersion {
+	/**
+	 * Object stores to create, or to delete when set to `null`.
+	 */
+	stores?: Record<string, IndexedDBStoreDefinition | null>;
+
+	/**
+	 * Indexes to create (or delete when set to `null`), grouped by object store.
+	 */
+	indexes?: Record<string, Record<string, IndexedDBIndexDefinition | null>>;
+
+	/**
+	 * Migrates data inside the upgrade transaction, after stores and indexes are updated.
+	 * Only await IndexedDB requests here, otherwise the transaction commits early.
+	 */
+	migrate?: (
+		tx: IDBTransaction,
+		context: IndexedDBMigrationContext
+	) => void | Promise<void>;
+}
+
+/**
+ * Declarative schema, keyed by database version.
+ */
+export type IndexedDBSchemaDefinition = Record<number, IndexedDBSchemaVersion>;
+
+export type IndexedDBStatus =
+	| 'idle'
+	| 'opening'
+	| 'upgrading'
+	| 'blocked'
+	| 'open'
+	| 'outdated'
+	| 'closed'
+	| 'error';
+
 export interface UseIndexedDBOptions {
 	/**
 	 * Database name
@@ -7,25 +60,173 @@ export interface UseIndexedDBOptions {
 	name: string;
 
 	/**
-	 * Database version
+	 * Database version. Defaults to the highest version in `schema`
 	 */
-	version: number;
+	version?: number;
+
+	/**
+	 * Declarative schema applied step by step for every version the database moves through
+	 */
+	schema?: IndexedDBSchemaDefinition;
 
 	/**
-	 * Option upgrade callback
+	 * Option upgrade callback, called after the `schema` steps
 	 */
 	onUpgrade?: (
 		db: IDBDatabase,
 		oldVersion: number,
 		newVersion: number | null
 	) => void;
+
+	/**
+	 * Called when the upgrade waits for connections open in other tabs
+	 */
+	onBlocked?: () => void;
+
+	/**
+	 * Called when another tab upgrades the database and this connection is closed
+	 */
+	onVersionChange?: () => void;
 }
 
 export interface UseIndexedDBTransactionOptions {
 	mode?: IDBTransactionMode;
+
+	/**
+	 * Durability hint for readwrite transactions.
+	 * `'relaxed'` commits faster, `'strict'` waits until data is flushed to disk.
+	 */
+	durability?: IDBTransactionDurability;
+
+	/**
+	 * Aborts the transaction when the signal is aborted.
+	 */
+	signal?: AbortSignal;
+}
+
+export interface IndexedDBTransactionContext<Name extends string = string> {
+	/**
+	 * Underlying transaction.
+	 */
+	tx: IDBTransaction;
+
+	/**
+	 * Object stores in the transaction scope, by name.
+	 */
+	stores: Record<Name, IDBObjectStore>;
+
+	/**
+	 * Aborts the transaction, rolling back every write. The transaction promise rejects with `reason`.
+	 */
+	abort: (reason?: unknown) => void;
+}
+
+/**
+ * Map of object store name to the record type it holds.
+ */
+export type IndexedDBSchema = Record<string, unknown>;
+
+export type IndexedDBStoreName<Schema extends IndexedDBSchema> = Extract<
+	keyof Schema,
+	string
+>;
+
+export type IndexedDBQuery = IDBValidKey | IDBKeyRange;
+
+export interface IndexedDBIterateOptions {
+	/**
+	 * Key or key range to iterate over.
+	 */
+	query?: IndexedDBQuery | null;
+
+	/**
+	 * Cursor direction.
+	 * @default 'next'
+	 */
+	direction?: IDBCursorDirection;
+}
+
+export type IndexedDBBatchOperation<T> =
+	| { type: 'put'; value: T; key?: IDBValidKey }
+	| { type: 'add'; value: T; key?: IDBValidKey }
+	| { type: 'delete'; key: IndexedDBQuery }
+	| { type: 'clear' };
+
+export interface IndexedDBIndexApi<T> {
+	/**
+	 * Reads the first record matching the query.
+	 */
+	get(query: IndexedDBQuery): Promise<T | undefined>;
+
+	/**
+	 * Reads every record matching the query.
+	 */
+	getAll(query?: IndexedDBQuery | null, count?: number): Promise<T[]>;
+
+	/**
+	 * Counts the records matching the query.
+	 */
+	count(query?: IndexedDBQuery | null): Promise<number>;
+
+	/**
+	 * Iterates the records with a cursor, in a single readonly transaction.
+	 * The transaction closes when idle, so avoid awaiting unrelated work inside the loop.
+	 */
+	iterate(
+		options?: IndexedDBIterateOptions
+	): AsyncGenerator<T, void, undefined>;
+}
+
+export interface IndexedDBStoreApi<T> extends IndexedDBIndexApi<T> {
+	/**
+	 * Name of the database the store belongs to.
+	 */
+	readonly dbName: string;
+
+	/**
+	 * Name of the object store.
+	 */
+	readonly storeName: string;
+
+	/**
+	 * Inserts or replaces a record and resolves with its key once committed.
+	 */
+	put(value: T, key?: IDBValidKey): Promise<IDBValidKey>;
+
+	/**
+	 * Inserts a record, failing if the key already exists.
+	 */
+	add(value: T, key?: IDBValidKey): Promise<IDBValidKey>;
+
+	/**
+	 * Deletes the records matching the key or key range.
+	 */
+	delete(query: IndexedDBQuery): Promise<void>;
+
+	/**
+	 * Deletes every record of the store.
+	 */
+	clear(): Promise<void>;
+
+	/**
+	 * Queries the store through one of its indexes.
+	 */
+	index(name: string): IndexedDBIndexApi<T>;
+
+	/**
+	 * Applies several writes in one transaction. Either all of them are committed or none.
+	 */
+	batch(operations: IndexedDBBatchOperation<T>[]): Promise<void>;
 }
 
-export interface UseIndexedDBTransactionResult {
+export interface UseIndexedDBTransactionResult<
+	Schema extends IndexedDBSchema = IndexedDBSchema,
+> {
+	/**
+	 * Connection status. `outdated` means another tab upgraded the database
+	 */
+	status: IndexedDBStatus;
+
 	/**
 	 * Opens the database connection
 	 */
@@ -40,6 +241,25 @@ export interface UseIndexedDBTransactionResult {
 		options?: UseIndexedDBTransactionOptions
 	) => Promise<T>;
 
+	/**
+	 * Runs a transaction over several object stores. Writes are committed atomically,
+	 * and the promise settles once the transaction completes or aborts.
+	 * A failed request rolls the transaction back and rejects with the request error
+	 */
+	withTransaction: <Name extends IndexedDBStoreName<Schema>, T>(
+		storeNames: Name[],
+		mode: IDBTransactionMode,
+		fn: (context: IndexedDBTransactionContext<Name>) => T | Promise<T>,
+		options?: Omit<UseIndexedDBTransactionOptions, 'mode'>
+	) => Promise<T>;
+
+	/**
+	 * Returns a typed, promise-based API for an object store
+	 */
+	store: <Name extends IndexedDBStoreName<Schema>>(
+		storeName: Name
+	) => IndexedDBStoreApi<Schema[Name]>;
+
 	/**
 	 * Closes the database connection
 	 */
@@ -51,10 +271,348 @@ export interface UseIndexedDBTransactionResult {
 	deleteDatabase: () => Promise<void>;
 }
 
+/**
+ * Key range helpers for index and store queries.
+ */
+export const keyRange = {
+	only(value: IDBValidKey): IDBKeyRange {
+		return IDBKeyRange.only(value);
+	},
+	between(
+		lower: IDBValidKey,
+		upper: IDBValidKey,
+		options: { lowerOpen?: boolean; upperOpen?: boolean } = {}
+	): IDBKeyRange {
+		return IDBKeyRange.bound(
+			lower,
+			upper,
+			options.lowerOpen ?? false,
+			options.upperOpen ?? false
+		);
+	},
+	above(value: IDBValidKey, inclusive = false): IDBKeyRange {
+		return IDBKeyRange.lowerBound(value, !inclusive);
+	},
+	below(value: IDBValidKey, inclusive = false): IDBKeyRange {
+		return IDBKeyRange.upperBound(value, !inclusive);
+	},
+	prefix(value: string): IDBKeyRange {
+		return IDBKeyRange.bound(value, `${value}\uffff`);
+	},
+};
+
+/**
+ * Wraps an `IDBRequest` in a promise.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function transactionToPromise(tx: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		// `tx.error` is only set once the transaction aborts, after the failed request bubbled up.
+		tx.onerror = event =>
+			reject((event.target as IDBRequest | null)?.error ?? tx.error);
+		tx.onabort = () =>
+			reject(
+				tx.error ?? new DOMException('Transaction aborted.', 'AbortError')
+			);
+	});
+}
+
+type OpenDatabase = () => Promise<IDBDatabase>;
+
+type Listener = () => void;
+
+interface IndexedDBChangeMessage {
+	dbName: string;
+	storeNames: string[];
+}
+
+const changeListeners = new Map<string, Set<Listener>>();
+let changeChannel: BroadcastChannel | null = null;
+
+function getChangeKey(dbName: string, storeName: string): string {
+	return `${dbName}/${storeName}`;
+}
+
+function notifyChange({ dbName, storeNames }: IndexedDBChangeMessage) {
+	storeNames.forEach(storeName => {
+		changeListeners
+			.get(getChangeKey(dbName, storeName))
+			?.forEach(listener => listener());
+	});
+}
+
+function getChangeChannel(): BroadcastChannel | null {
+	if (typeof BroadcastChannel === 'undefined') return null;
+	if (!changeChannel) {
+		changeChannel = new BroadcastChannel('vibehooks:indexeddb');
+		changeChannel.onmessage = (event: MessageEvent<IndexedDBChangeMessage>) =>
+			notifyChange(event.data);
+	}
+	return changeChannel;
+}
+
+/**
+ * Notifies writes made through `useIndexedDB`, in this tab and (over `BroadcastChannel`) in other tabs.
+ */
+export const indexedDBChangeStore = {
+	suscribe(dbName: string, storeName: string, listener: Listener) {
+		getChangeChannel();
+		const key = getChangeKey(dbName, storeName);
+		const keyListeners = changeListeners.get(key) ?? new Set<Listener>();
+		keyListeners.add(listener);
+		changeListeners.set(key, keyListeners);
+		return () => {
+			keyListeners.delete(listener);
+			if (keyListeners.size === 0) changeListeners.delete(key);
+		};
+	},
+	emit(dbName: string, storeNames: string[]) {
+		const message = { dbName, storeNames };
+		notifyChange(message);
+		getChangeChannel()?.postMessage(message);
+	},
+};
+
+async function runRequest<R>(
+	open: OpenDatabase,
+	storeName: string,
+	mode: IDBTransactionMode,
+	fn: (store: IDBObjectStore) => IDBRequest<R>
+): Promise<R> {
+	const db = await open();
+	const tx = db.transaction(storeName, mode);
+	const done = transactionToPromise(tx);
+	const request = fn(tx.objectStore(storeName));
+	await done;
+	return request.result;
+}
+
+async function runTransaction<Name extends string, T>(
+	open: OpenDatabase,
+	dbName: string,
+	storeNames: Name[],
+	mode: IDBTransactionMode,
+	fn: (context: IndexedDBTransactionContext<Name>) => T | Promise<T>,
+	options: Omit<UseIndexedDBTransactionOptions, 'mode'> = {}
+): Promise<T> {
+	const { durability, signal } = options;
+	signal?.throwIfAborted();
+	const db = await open();
+	signal?.throwIfAborted();
+	const tx = db.transaction(
+		storeNames,
+		mode,
+		durability !== undefined ? { durability } : undefined
+	);
+	// Listen before running the callback, so an early commit is never missed.
+	const done = transactionToPromise(tx);
+
+	let abortReason: unknown;
+	let isAborted = false;
+	const abort = (reason?: unknown) => {
+		if (isAborted) return;
+		isAborted = true;
+		abortReason = reason;
+		try {
+			tx.abort();
+		} catch {}
+	};
+	const onAbort = () => abort(signal?.reason);
+	signal?.addEventListener('abort', onAbort, { once: true });
+
+	const stores = Object.fromEntries(
+		storeNames.map(storeName => [storeName, tx.objectStore(storeName)])
+	) as Record<Name, IDBObjectStore>;
+
+	try {
+		let result: T;
+		try {
+			result = await fn({ tx, stores, abort });
+		} catch (error: unknown) {
+			abort(error);
+			done.catch(() => {});
+			throw error;
+		}
+		try {
+			await done;
+		} catch (error: unknown) {
+			throw isAborted && abortReason !== undefined ? abortReason : error;
+		}
+		if (mode !== 'readonly') indexedDBChangeStore.emit(dbName, storeNames);
+		return result;
+	} finally {
+		signal?.removeEventListener('abort', onAbort);
+	}
+}
+
+async function* iterateCursor<T>(
+	open: OpenDatabase,
+	storeName: string,
+	indexName: string | undefined,
+	options: IndexedDBIterateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+	const db = await open();
+	const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+	const source = indexName === undefined ? store : store.index(indexName);
+	const request = source.openCursor(options.query ?? null, options.direction);
+	let cursor = await requestToPromise(request);
+	while (cursor) {
+		yield cursor.value as T;
+		cursor.continue();
+		cursor = await requestToPromise(request);
+	}
+}
+
+function createIndexApi<T>(
+	open: OpenDatabase,
+	storeName: string,
+	indexName?: string
+): IndexedDBIndexApi<T> {
+	const source = (store: IDBObjectStore) =>
+		indexName === undefined ? store : store.index(indexName);
+
+	return {
+		get: query =>
+			runRequest(open, storeName, 'readonly', store =>
+				source(store).get(query)
+			) as Promise<T | undefined>,
+		getAll: (query, count) =>
+			runRequest(open, storeName, 'readonly', store =>
+				source(store).getAll(query, count)
+			) as Promise<T[]>,
+		count: query =>
+			runRequest(open, storeName, 'readonly', store =>
+				source(store).count(query ?? undefined)
+			),
+		iterate: options => iterateCursor<T>(open, storeName, indexName, options),
+	};
+}
+
+function createStoreApi<T>(
+	open: OpenDatabase,
+	dbName: string,
+	storeName: string
+): IndexedDBStoreApi<T> {
+	const write = async <R>(fn: (store: IDBObjectStore) => IDBRequest<R>) => {
+		const result = await runRequest(open, storeName, 'readwrite', fn);
+		indexedDBChangeStore.emit(dbName, [storeName]);
+		return result;
+	};
+
+	return {
+		...createIndexApi<T>(open, storeName),
+		dbName,
+		storeName,
+		put: (value, key) => write(store => store.put(value, key)),
+		add: (value, key) => write(store => store.add(value, key)),
+		delete: async query => {
+			await write(store => store.delete(query));
+		},
+		clear: async () => {
+			await write(store => store.clear());
+		},
+		index: name => createIndexApi<T>(open, storeName, name),
+		batch: async operations => {
+			const db = await open();
+			const tx = db.transaction(storeName, 'readwrite');
+			const done = transactionToPromise(tx);
+			const store = tx.objectStore(storeName);
+			try {
+				for (const operation of operations) {
+					if (operation.type === 'put')
+						store.put(operation.value, operation.key);
+					else if (operation.type === 'add')
+						store.add(operation.value, operation.key);
+					else if (operation.type === 'delete') store.delete(operation.key);
+					else store.clear();
+				}
+			} catch (error: unknown) {
+				tx.abort();
+				done.catch(() => {});
+				throw error;
+			}
+			await done;
+			indexedDBChangeStore.emit(dbName, [storeName]);
+		},
+	};
+}
+
+function getLatestVersion(
+	schema: IndexedDBSchemaDefinition | undefined
+): number | undefined {
+	if (!schema) return undefined;
+	const versions = Object.keys(schema).map(Number);
+	return versions.length > 0 ? Math.max(...versions) : undefined;
+}
+
+async function applySchema(
+	db: IDBDatabase,
+	tx: IDBTransaction,
+	schema: IndexedDBSchemaDefinition,
+	oldVersion: number,
+	newVersion: number
+): Promise<void> {
+	const versions = Object.keys(schema)
+		.map(Number)
+		.filter(version => version > oldVersion && version <= newVersion)
+		.sort((a, b) => a - b);
+
+	for (const version of versions) {
+		const { stores = {}, indexes = {}, migrate } = schema[version] ?? {};
+
+		for (const [storeName, definition] of Object.entries(stores)) {
+			const exists = db.objectStoreNames.contains(storeName);
+			if (definition === null) {
+				if (exists) db.deleteObjectStore(storeName);
+			} else if (!exists) {
+				db.createObjectStore(storeName, {
+					...(definition.keyPath !== undefined && {
+						keyPath: definition.keyPath,
+					}),
+					...(definition.autoIncrement !== undefined && {
+						autoIncrement: definition.autoIncrement,
+					}),
+				});
+			}
+		}
+
+		for (const [storeName, storeIndexes] of Object.entries(indexes)) {
+			const store = tx.objectStore(storeName);
+			for (const [indexName, definition] of Object.entries(storeIndexes)) {
+				const exists = store.indexNames.contains(indexName);
+				if (definition === null) {
+					if (exists) store.deleteIndex(indexName);
+				} else if (!exists) {
+					store.createIndex(indexName, definition.keyPath, {
+						...(definition.unique !== undefined && {
+							unique: definition.unique,
+						}),
+						...(definition.multiEntry !== undefined && {
+							multiEntry: definition.multiEntry,
+						}),
+					});
+				}
+			}
+		}
+
+		await migrate?.(tx, { db, oldVersion, version });
+	}
+}
+
 /**
  * `useIndexedDB` is a React hook that provides unopinionated access to IndexedDB.
- * This hook does not manage schemas, objet stores, or data shape.
- * It only abstracts database lifecycle and transaction boilerplate.
+ * It abstracts database lifecycle and transaction boilerplate, and can optionally apply a declarative schema.
+ *
+ * With `schema`, every version between the stored one and the requested one is applied in order:
+ * stores are created or deleted, then indexes, then `migrate` runs inside the upgrade transaction.
+ * When another tab upgrades the database, this connection is closed and `status` becomes `'outdated'`.
  *
  * @returns IndexedDB helpers.
  *
@@ -73,16 +631,97 @@ export interface UseIndexedDBTransactionResult {
  * });
  * ```
  *
+ * @example
+ * ```tsx
+ * // Typed store API
+ * type Schema = {
+ *   users: { id: string; name: string; age: number };
+ * };
+ *
+ * const db = useIndexedDB<Schema>({
+ *   name: 'app-db',
+ *   version: 1,
+ *   onUpgrade(db) {
+ *     const users = db.createObjectStore('users', { keyPath: 'id' });
+ *     users.createIndex('by-name', 'name');
+ *     users.createIndex('by-age', 'age');
+ *   },
+ * });
+ *
+ * const users = db.store('users');
+ * await users.put({ id: '1', name: 'Sebas', age: 30 });
+ * const adults = await users.index('by-age').getAll(keyRange.above(18, true));
+ * const sebs = await users.index('by-name').getAll(keyRange.prefix('Seb'));
+ *
+ * for await (const user of users.iterate({ direction: 'prev' })) {
+ *   console.log(user.name);
+ * }
+ *
+ * await users.batch([
+ *   { type: 'put', value: { id: '2', name: 'Ana', age: 25 } },
+ *   { type: 'delete', key: '1' },
+ * ]);
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Declarative schema
+ * const db = useIndexedDB({
+ *   name: 'app-db',
+ *   schema: {
+ *     1: {
+ *       stores: { users: { keyPath: 'id' } },
+ *       indexes: { users: { 'by-name': { keyPath: 'name' } } },
+ *     },
+ *     2: {
+ *       stores: { sessions: { keyPath: 'id' }, legacy: null },
+ *       indexes: { users: { 'by-email': { keyPath: 'email', unique: true } } },
+ *       async migrate(tx) {
+ *         const users = tx.objectStore('users');
+ *         const all = await requestToPromise(users.getAll());
+ *         all.forEach(user => users.put({ ...user, email: user.email ?? '' }));
+ *       },
+ *     },
+ *   },
+ *   onVersionChange: () => alert('A newer version is open in another tab. Please reload.'),
+ * });
+ *
+ * if (db.status === 'blocked') return <p>Close other tabs to finish the update.</p>;
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Atomic writes across stores
+ * await db.withTransaction(
+ *   ['users', 'orders'],
+ *   'readwrite',
+ *   async ({ stores, abort }) => {
+ *     const user = await requestToPromise(stores.users.get(userId));
+ *     if (!user) return abort(new Error('Unknown user'));
+ *     stores.orders.add({ id: orderId, userId, total });
+ *     stores.users.put({ ...user, orders: user.orders + 1 });
+ *   },
+ *   { durability: 'strict' }
+ * );
+ * ```
+ *
  * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
  *
  * @since 0.0.1
  * @version 0.0.1
  *
  */
-export function useIndexedDB(
+export function useIndexedDB<Schema extends IndexedDBSchema = IndexedDBSchema>(
 	options: UseIndexedDBOptions
-): UseIndexedDBTransactionResult {
+): UseIndexedDBTransactionResult<Schema> {
 	const dbRef = React.useRef<IDBDatabase | null>(null);
+	const openPromiseRef = React.useRef<Promise<IDBDatabase> | null>(null);
+	const [status, setStatus] = React.useState<IndexedDBStatus>('idle');
+
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	const version = options.version ?? getLatestVersion(options.schema);
 
 	const isSupported =
 		typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
@@ -94,45 +733,113 @@ export function useIndexedDB(
 		if (dbRef.current) {
 			return Promise.resolve(dbRef.current);
 		}
-		return new Promise<IDBDatabase>((resolve, reject) => {
-			const request = indexedDB.open(options.name, options.version);
+		if (openPromiseRef.current) {
+			return openPromiseRef.current;
+		}
+		setStatus('opening');
+		const promise = new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(options.name, version);
+			let upgradeError: unknown = null;
+
 			request.onupgradeneeded = event => {
-				options.onUpgrade?.(request.result, event.oldVersion, event.newVersion);
+				setStatus('upgrading');
+				const db = request.result;
+				const tx = request.transaction;
+				const { schema, onUpgrade } = optionsRef.current;
+				const newVersion = event.newVersion ?? db.version;
+				(schema && tx
+					? applySchema(db, tx, schema, event.oldVersion, newVersion)
+					: Promise.resolve()
+				)
+					.then(() => onUpgrade?.(db, event.oldVersion, event.newVersion))
+					.catch((error: unknown) => {
+						upgradeError = error;
+						tx?.abort();
+					});
+			};
+			request.onblocked = () => {
+				setStatus('blocked');
+				optionsRef.current.onBlocked?.();
 			};
 			request.onsuccess = () => {
-				dbRef.current = request.result;
-				resolve(dbRef.current);
+				const db = request.result;
+				const release = () => {
+					if (dbRef.current !== db) return;
+					dbRef.current = null;
+					openPromiseRef.current = null;
+				};
+				db.onversionchange = () => {
+					db.close();
+					release();
+					setStatus('outdated');
+					optionsRef.current.onVersionChange?.();
+				};
+				db.onclose = () => {
+					release();
+					setStatus('closed');
+				};
+				dbRef.current = db;
+				setStatus('open');
+				resolve(db);
 			};
 			request.onerror = () => {
-				reject(request.error);
+				openPromiseRef.current = null;
+				setStatus('error');
+				reject(upgradeError ?? request.error);
 			};
 		});
-	}, [isSupported, options]);
+		openPromiseRef.current = promise;
+		return promise;
+	}, [isSupported, options.name, version]);
+
+	const withTransaction = React.useCallback(
+		<Name extends IndexedDBStoreName<Schema>, T>(
+			storeNames: Name[],
+			mode: IDBTransactionMode,
+			fn: (context: IndexedDBTransactionContext<Name>) => T | Promise<T>,
+			transactionOptions?: Omit<UseIndexedDBTransactionOptions, 'mode'>
+		) =>
+			runTransaction(
+				open,
+				options.name,
+				storeNames,
+				mode,
+				fn,
+				transactionOptions
+			),
+		[open, options.name]
+	);
 
 	const withStore = React.useCallback(
-		async <T>(
+		<T>(
 			storeName: string,
 			fn: (store: IDBObjectStore) => Promise<T>,
-			options?: UseIndexedDBTransactionOptions
+			transactionOptions?: UseIndexedDBTransactionOptions
 		): Promise<T> => {
-			const db = await open();
-			return new Promise<T>((resolve, reject) => {
-				const tx = db.transaction(storeName, options?.mode ?? 'readwrite');
-				const store = tx.objectStore(storeName);
-				fn(store)
-					.then(result => {
-						tx.oncomplete = () => resolve(result);
-						tx.onerror = () => reject(tx.error);
-					})
-					.catch(reject);
-			});
+			const { mode = 'readwrite', ...rest } = transactionOptions ?? {};
+			return runTransaction(
+				open,
+				options.name,
+				[storeName],
+				mode,
+				({ tx }) => fn(tx.objectStore(storeName)),
+				rest
+			);
 		},
-		[open]
+		[open, options.name]
+	);
+
+	const store = React.useCallback(
+		<Name extends IndexedDBStoreName<Schema>>(storeName: Name) =>
+			createStoreApi<Schema[Name]>(open, options.name, storeName),
+		[open, options.name]
 	);
 
 	const close = React.useCallback(() => {
 		dbRef.current?.close();
 		dbRef.current = null;
+		openPromiseRef.current = null;
+		setStatus('closed');
 	}, []);
 
 	const deleteDatabase = React.useCallback(() => {
@@ -145,8 +852,11 @@ export function useIndexedDB(
 	}, [close, options.name]);
 
 	return {
+		status,
 		open,
 		withStore,
+		withTransaction,
+		store,
 		close,
 		deleteDatabase,
 	};
@@ -0,0 +1,146 @@
+import * as React from 'react';
+import { type IndexedDBStoreApi, indexedDBChangeStore } from './useIndexedDB';
+
+export interface UseIndexedDBQueryOptions {
+	/**
+	 * Values the query depends on. The query runs again when any of them changes.
+	 * @default []
+	 */
+	deps?: React.DependencyList;
+
+	/**
+	 * Whether the query runs.
+	 * @default true
+	 */
+	enabled?: boolean;
+}
+
+export interface UseIndexedDBQueryReturn<R> {
+	/**
+	 * Latest result of the query.
+	 */
+	data: R | undefined;
+
+	/**
+	 * Error thrown by the latest run, if any.
+	 */
+	error: unknown;
+
+	/**
+	 * Whether the query is running for the first time.
+	 */
+	isLoading: boolean;
+
+	/**
+	 * Whether the query is running (first run or after a change).
+	 */
+	isFetching: boolean;
+
+	/**
+	 * Runs the query again.
+	 */
+	refetch: () => Promise<void>;
+}
+
+/**
+ * `useIndexedDBQuery` is a React hook that keeps the result of an IndexedDB query live.
+ * The query runs again after every write made through `useIndexedDB` to the same object store,
+ * in this tab or in another one (over `BroadcastChannel`). Writes to other stores are ignored.
+ *
+ * @template T Record type of the store.
+ * @template R Result of the query.
+ * @param store Typed store returned by `useIndexedDB().store(name)`.
+ * @param query Reads from the store and resolves with the result.
+ * @param options Optional configuration.
+ *
+ * @returns The live result with loading and error state.
+ *
+ * @example
+ * ```tsx
+ * function Adults({ minAge }: { minAge: number }) {
+ *   const db = useIndexedDB<Schema>(dbOptions);
+ *   const users = db.store('users');
+ *
+ *   const { data = [], isLoading, error } = useIndexedDBQuery(
+ *     users,
+ *     store => store.index('by-age').getAll(keyRange.above(minAge, true)),
+ *     { deps: [minAge] }
+ *   );
+ *
+ *   if (isLoading) return <Spinner />;
+ *   if (error) return <p>Could not load users</p>;
+ *   return <ul>{data.map(user => <li key={user.id}>{user.name}</li>)}</ul>;
+ * }
+ *
+ * // Anywhere else: the list above re-renders once the write is committed
+ * await users.put({ id: '3', name: 'Lucía', age: 41 });
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function useIndexedDBQuery<T, R>(
+	store: IndexedDBStoreApi<T>,
+	query: (store: IndexedDBStoreApi<T>) => Promise<R>,
+	options: UseIndexedDBQueryOptions = {}
+): UseIndexedDBQueryReturn<R> {
+	const { deps = [], enabled = true } = options;
+	const { dbName, storeName } = store;
+
+	const storeRef = React.useRef(store);
+	storeRef.current = store;
+	const queryRef = React.useRef(query);
+	queryRef.current = query;
+
+	const [state, setState] = React.useState<{
+		data: R | undefined;
+		error: unknown;
+		isLoading: boolean;
+		isFetching: boolean;
+	}>({
+		data: undefined,
+		error: null,
+		isLoading: enabled,
+		isFetching: enabled,
+	});
+
+	const runIdRef = React.useRef(0);
+
+	const refetch = React.useCallback(async () => {
+		const runId = ++runIdRef.current;
+		setState(prev => ({ ...prev, isFetching: true }));
+		try {
+			const data = await queryRef.current(storeRef.current);
+			if (runId !== runIdRef.current) return;
+			setState({ data, error: null, isLoading: false, isFetching: false });
+		} catch (error: unknown) {
+			if (runId !== runIdRef.current) return;
+			setState(prev => ({
+				...prev,
+				error,
+				isLoading: false,
+				isFetching: false,
+			}));
+		}
+	}, []);
+
+	React.useEffect(() => {
+		if (!enabled) return;
+		refetch();
+		const unsuscribe = indexedDBChangeStore.suscribe(dbName, storeName, () => {
+			refetch();
+		});
+		return () => {
+			runIdRef.current++;
+			unsuscribe();
+		};
+	}, [dbName, storeName, enabled, refetch, ...deps]);
+
+	return {
+		...state,
+		refetch,
+	};
+}
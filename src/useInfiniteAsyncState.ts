@@ -0,0 +1,483 @@
+import * as React from 'react';
+import {
+	type AsyncState,
+	createInitialState,
+	type FetchClient,
+	type FetchConfig,
+	getQueryKey,
+	infiniteKeyPrefix,
+	performFetch,
+	type QueryCache,
+	type QueryFetchContext,
+	useFetchClient,
+	useQueryCache,
+} from './useAsyncState';
+import {
+	type IntersectionObserverOptions,
+	useIntersectionObserver,
+} from './useIntersectionObserver';
+
+export interface InfiniteData<TPage, TParam> {
+	/**
+	 * Loaded pages, in display order.
+	 */
+	pages: TPage[];
+
+	/**
+	 * Params used to load each page, aligned with `pages`.
+	 */
+	pageParams: TParam[];
+}
+
+export type PageParamGetter<TPage, TParam> = (
+	page: TPage,
+	pages: TPage[],
+	pageParam: TParam
+) => TParam | null | undefined;
+
+type FetchDirection = 'initial' | 'next' | 'previous';
+
+export interface UseInfiniteAsyncStateOptions<TPage, TParam> {
+	/**
+	 * Endpoint of the paginated resource.
+	 */
+	url: string;
+
+	/**
+	 * Request configuration shared by every page.
+	 */
+	config?: FetchConfig;
+
+	/**
+	 * Param of the first page to load.
+	 */
+	initialPageParam: TParam;
+
+	/**
+	 * Maps a page param to the query params of its request.
+	 * @default pageParam => ({ page: pageParam })
+	 */
+	getPageParams?: (
+		pageParam: TParam
+	) => Record<string, string | number | boolean>;
+
+	/**
+	 * Returns the param of the page after the last one, or null/undefined when there is none.
+	 */
+	getNextPageParam: PageParamGetter<TPage, TParam>;
+
+	/**
+	 * Returns the param of the page before the first one, or null/undefined when there is none.
+	 */
+	getPreviousPageParam?: PageParamGetter<TPage, TParam>;
+
+	/**
+	 * Maximum number of pages kept in memory. Pages are dropped from the opposite end.
+	 */
+	maxPages?: number;
+
+	/**
+	 * Whether the first page is loaded on mount.
+	 * @default true
+	 */
+	enabled?: boolean;
+
+	/**
+	 * Loads the next (or previous) page automatically when its sentinel element becomes visible.
+	 * Pass IntersectionObserver options to tune the observer.
+	 * @default false
+	 */
+	autoFetch?: boolean | IntersectionObserverOptions;
+
+	/**
+	 * Cache to use instead of the one provided by `QueryCacheProvider`.
+	 */
+	cache?: QueryCache;
+
+	/**
+	 * Fetch client to use instead of the one provided by `FetchClientProvider`.
+	 */
+	client?: FetchClient;
+
+	onSuccess?: (data: InfiniteData<TPage, TParam>) => void;
+	onError?: (error: Error) => void;
+}
+
+export interface UseInfiniteAsyncStateReturn<
+	TPage,
+	TParam,
+	TElement extends Element,
+> extends AsyncState<InfiniteData<TPage, TParam>> {
+	/**
+	 * Shortcut for `data.pages`.
+	 */
+	pages: TPage[];
+
+	/**
+	 * Whether `getNextPageParam` returns a param for the last page.
+	 */
+	hasNextPage: boolean;
+
+	/**
+	 * Whether `getPreviousPageParam` returns a param for the first page.
+	 */
+	hasPreviousPage: boolean;
+
+	/**
+	 * True while the next page is being loaded.
+	 */
+	isFetchingNextPage: boolean;
+
+	/**
+	 * True while the previous page is being loaded.
+	 */
+	isFetchingPreviousPage: boolean;
+
+	/**
+	 * Loads the page after the last one.
+	 */
+	fetchNextPage: () => Promise<InfiniteData<TPage, TParam> | null>;
+
+	/**
+	 * Loads the page before the first one.
+	 */
+	fetchPreviousPage: () => Promise<InfiniteData<TPage, TParam> | null>;
+
+	/**
+	 * Reloads every loaded page.
+	 */
+	refetch: () => Promise<InfiniteData<TPage, TParam> | null>;
+
+	/**
+	 * Ref for the element rendered after the last page, used by `autoFetch`.
+	 */
+	nextSentinelRef: React.RefObject<TElement | null>;
+
+	/**
+	 * Ref for the element rendered before the first page, used by `autoFetch`.
+	 */
+	previousSentinelRef: React.RefObject<TElement | null>;
+}
+
+function defaultGetPageParams(
+	pageParam: unknown
+): Record<string, string | number | boolean> {
+	return { page: String(pageParam) };
+}
+
+function toError(err: unknown): Error {
+	return err instanceof Error ? err : new Error(String(err));
+}
+
+/**
+ * `useInfiniteAsyncState` manages cursor- and page-based lists on top of the `useAsyncState` query cache.
+ * Pages are stored together under one cache entry, so every component rendering the same list shares them.
+ *
+ * The sentinel elements used by `autoFetch` must be rendered from the first render,
+ * since `useIntersectionObserver` observes the element that is attached on mount.
+ *
+ * @template TPage Type of a single page response.
+ * @template TParam Type of the page param (page number, cursor...).
+ * @template TElement Type of the sentinel elements.
+ *
+ * @param options Pagination and request options.
+ *
+ * @returns Loaded pages, pagination state and helpers.
+ *
+ * @example
+ * ```tsx
+ * // Cursor-based feed that loads more when the sentinel is visible
+ * function Feed() {
+ *   const { pages, hasNextPage, isFetchingNextPage, nextSentinelRef } =
+ *     useInfiniteAsyncState<FeedPage, string | null>({
+ *       url: '/api/feed',
+ *       initialPageParam: null,
+ *       getPageParams: cursor => (cursor ? { cursor } : {}),
+ *       getNextPageParam: page => page.nextCursor,
+ *       autoFetch: { rootMargin: '200px' },
+ *     });
+ *
+ *   return (
+ *     <ul>
+ *       {pages.flatMap(page => page.items).map(item => (
+ *         <li key={item.id}>{item.title}</li>
+ *       ))}
+ *       <li ref={nextSentinelRef}>
+ *         {isFetchingNextPage ? 'Loading…' : hasNextPage ? '' : 'No more items'}
+ *       </li>
+ *     </ul>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Bidirectional chat history
+ * const history = useInfiniteAsyncState<MessagesPage, number>({
+ *   url: `/api/chats/${chatId}/messages`,
+ *   initialPageParam: lastReadPage,
+ *   getNextPageParam: (page, _, param) => (page.hasMore ? param + 1 : null),
+ *   getPreviousPageParam: (_, __, param) => (param > 0 ? param - 1 : null),
+ *   maxPages: 10,
+ * });
+ *
+ * <button onClick={history.fetchPreviousPage} disabled={!history.hasPreviousPage}>
+ *   Load older messages
+ * </button>
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function useInfiniteAsyncState<
+	TPage,
+	TParam = number,
+	TElement extends Element = HTMLElement,
+>(
+	options: UseInfiniteAsyncStateOptions<TPage, TParam>
+): UseInfiniteAsyncStateReturn<TPage, TParam, TElement> {
+	const {
+		url,
+		config,
+		enabled = true,
+		autoFetch = false,
+		onSuccess,
+		onError,
+	} = options;
+
+	type Data = InfiniteData<TPage, TParam>;
+
+	const contextCache = useQueryCache();
+	const cache = options.cache ?? contextCache;
+	const contextClient = useFetchClient();
+	const client = options.client ?? contextClient;
+
+	const key = `${infiniteKeyPrefix}${getQueryKey(client.resolveUrl(url), config?.params)}`;
+
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	const initialStateRef = React.useRef<AsyncState<Data>>(
+		createInitialState<Data>(null)
+	);
+
+	const suscribe = React.useCallback(
+		(listener: () => void) => cache.suscribe(key, listener),
+		[cache, key]
+	);
+	const getSnapshot = React.useCallback(
+		() => cache.getSnapshot<Data>(key) ?? initialStateRef.current,
+		[cache, key]
+	);
+	const getServerSnapshot = React.useCallback(
+		() => initialStateRef.current,
+		[]
+	);
+
+	const state = React.useSyncExternalStore(
+		suscribe,
+		getSnapshot,
+		getServerSnapshot
+	);
+
+	const [direction, setDirection] = React.useState<FetchDirection | null>(null);
+
+	const fetchPage = React.useCallback(
+		(pageParam: TParam, context: QueryFetchContext<Data>) => {
+			const { config, getPageParams = defaultGetPageParams } =
+				optionsRef.current;
+			const pageParams = getPageParams(pageParam);
+			return performFetch<TPage>(
+				client,
+				url,
+				{ ...config, params: { ...config?.params, ...pageParams } },
+				{
+					signal: context.signal,
+					report: ({ attempt }) => {
+						if (attempt !== undefined) context.report({ attempt });
+					},
+				}
+			);
+		},
+		[client, url]
+	);
+
+	const getNextParam = React.useCallback((data: Data | null): TParam | null => {
+		if (!data || data.pages.length === 0) return null;
+		const index = data.pages.length - 1;
+		return (
+			optionsRef.current.getNextPageParam(
+				data.pages[index] as TPage,
+				data.pages,
+				data.pageParams[index] as TParam
+			) ?? null
+		);
+	}, []);
+
+	const getPreviousParam = React.useCallback(
+		(data: Data | null): TParam | null => {
+			const getter = optionsRef.current.getPreviousPageParam;
+			if (!getter || !data || data.pages.length === 0) return null;
+			return (
+				getter(
+					data.pages[0] as TPage,
+					data.pages,
+					data.pageParams[0] as TParam
+				) ?? null
+			);
+		},
+		[]
+	);
+
+	const refetchAll = React.useCallback(
+		async (context: QueryFetchContext<Data>): Promise<Data> => {
+			const current = cache.getSnapshot<Data>(key)?.data;
+			const params = current?.pageParams.length
+				? current.pageParams
+				: [optionsRef.current.initialPageParam];
+			const pages: TPage[] = [];
+			for (const pageParam of params) {
+				pages.push(await fetchPage(pageParam, context));
+			}
+			return { pages, pageParams: [...params] };
+		},
+		[cache, key, fetchPage]
+	);
+
+	const run = React.useCallback(
+		async (next: FetchDirection): Promise<Data | null> => {
+			const current = cache.getSnapshot<Data>(key)?.data ?? null;
+			const pageParam =
+				next === 'initial'
+					? optionsRef.current.initialPageParam
+					: next === 'next'
+						? getNextParam(current)
+						: getPreviousParam(current);
+			if (pageParam === null) return current;
+
+			setDirection(next);
+			try {
+				const data = await cache.fetch<Data>(
+					key,
+					async context => {
+						const page = await fetchPage(pageParam, context);
+						const latest = cache.getSnapshot<Data>(key)?.data;
+						if (next === 'initial' || !latest) {
+							return { pages: [page], pageParams: [pageParam] };
+						}
+						const limit = optionsRef.current.maxPages;
+						if (next === 'next') {
+							const pages = [...latest.pages, page];
+							const pageParams = [...latest.pageParams, pageParam];
+							const start =
+								limit !== undefined ? Math.max(0, pages.length - limit) : 0;
+							return {
+								pages: pages.slice(start),
+								pageParams: pageParams.slice(start),
+							};
+						}
+						const pages = [page, ...latest.pages];
+						const pageParams = [pageParam, ...latest.pageParams];
+						return {
+							pages: pages.slice(0, limit),
+							pageParams: pageParams.slice(0, limit),
+						};
+					},
+					{ refetcher: refetchAll }
+				);
+				onSuccess?.(data);
+				return data;
+			} catch (err: unknown) {
+				const error = toError(err);
+				if (error.name !== 'AbortError') onError?.(error);
+				return null;
+			} finally {
+				setDirection(null);
+			}
+		},
+		[
+			cache,
+			key,
+			fetchPage,
+			getNextParam,
+			getPreviousParam,
+			refetchAll,
+			onSuccess,
+			onError,
+		]
+	);
+
+	const fetchNextPage = React.useCallback(() => run('next'), [run]);
+	const fetchPreviousPage = React.useCallback(() => run('previous'), [run]);
+
+	const refetch = React.useCallback(async (): Promise<Data | null> => {
+		setDirection('initial');
+		try {
+			return await cache.fetch<Data>(key, refetchAll, {
+				refetcher: refetchAll,
+			});
+		} catch (err: unknown) {
+			const error = toError(err);
+			if (error.name !== 'AbortError') onError?.(error);
+			return null;
+		} finally {
+			setDirection(null);
+		}
+	}, [cache, key, refetchAll, onError]);
+
+	React.useEffect(() => {
+		if (!enabled) return;
+		const cached = cache.getSnapshot<Data>(key);
+		if (cached?.isSuccess && !cache.isInvalidated(key)) return;
+		run('initial');
+	}, [cache, key, enabled]);
+
+	const hasNextPage = getNextParam(state.data) !== null;
+	const hasPreviousPage = getPreviousParam(state.data) !== null;
+
+	const observerOptions = typeof autoFetch === 'object' ? autoFetch : {};
+	const next = useIntersectionObserver<TElement>(observerOptions);
+	const previous = useIntersectionObserver<TElement>(observerOptions);
+
+	React.useEffect(() => {
+		if (!autoFetch || !next.isVisible || !hasNextPage || state.isFetching) {
+			return;
+		}
+		fetchNextPage();
+	}, [autoFetch, next.isVisible, hasNextPage, state.isFetching, fetchNextPage]);
+
+	React.useEffect(() => {
+		if (
+			!autoFetch ||
+			!previous.isVisible ||
+			!hasPreviousPage ||
+			state.isFetching
+		) {
+			return;
+		}
+		fetchPreviousPage();
+	}, [
+		autoFetch,
+		previous.isVisible,
+		hasPreviousPage,
+		state.isFetching,
+		fetchPreviousPage,
+	]);
+
+	return {
+		...state,
+		pages: state.data?.pages ?? [],
+		hasNextPage,
+		hasPreviousPage,
+		isFetchingNextPage: state.isFetching && direction === 'next',
+		isFetchingPreviousPage: state.isFetching && direction === 'previous',
+		fetchNextPage,
+		fetchPreviousPage,
+		refetch,
+		nextSentinelRef: next.ref,
+		previousSentinelRef: previous.ref,
+	};
+}
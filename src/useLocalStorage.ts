@@ -1,10 +1,206 @@
 import * as React from 'react';
 
+type Listener = () => void;
+
+const listeners = new Map<string, Set<Listener>>();
+
+/**
+ * Values that did not fit in localStorage, kept when `onQuotaExceeded` is `'memory'`.
+ */
+const memoryFallback = new Map<string, string>();
+
+function emit(key: string | null) {
+	if (key === null) {
+		listeners.forEach(keyListeners => {
+			keyListeners.forEach(listener => listener());
+		});
+		return;
+	}
+	listeners.get(key)?.forEach(listener => listener());
+}
+
+export const localStorageStore = {
+	suscribe(key: string, listener: Listener) {
+		const keyListeners = listeners.get(key) ?? new Set<Listener>();
+		keyListeners.add(listener);
+		listeners.set(key, keyListeners);
+
+		const unsuscribe = () => {
+			keyListeners.delete(listener);
+			if (keyListeners.size === 0) listeners.delete(key);
+		};
+
+		if (typeof window !== 'undefined') {
+			const onStorage = (event: StorageEvent) => {
+				if (event.storageArea !== window.localStorage) return;
+				if (event.key === key || event.key === null) listener();
+			};
+			window.addEventListener('storage', onStorage);
+			return () => {
+				unsuscribe();
+				window.removeEventListener('storage', onStorage);
+			};
+		}
+		return unsuscribe;
+	},
+	getSnapshot(key: string): string | null {
+		if (typeof window === 'undefined') return null;
+		const inMemory = memoryFallback.get(key);
+		if (inMemory !== undefined) return inMemory;
+		try {
+			return window.localStorage.getItem(key);
+		} catch {
+			return null;
+		}
+	},
+	getServerSnapshot(): string | null {
+		return null;
+	},
+	emit,
+};
+
+export type QuotaExceededStrategy = 'throw' | 'evict' | 'memory';
+
+export interface LocalStorageSetOptions {
+	/**
+	 * Time to live of this entry in milliseconds. Overrides the hook `ttl`.
+	 */
+	ttl?: number;
+}
+
 export interface UseLocalStorageOptions<T> {
 	/**
 	 * Optional fallback value returned when the key does not exist or parsing fails.
+	 * The reactive value only picks up a new fallback when the stored value changes,
+	 * so it can be declared inline.
 	 */
 	fallback?: T;
+
+	/**
+	 * Returns `[value, setValue]` and re-renders whenever the value changes,
+	 * in this tab or in another one.
+	 */
+	reactive?: boolean;
+
+	/**
+	 * Converts a value into the string stored in localStorage.
+	 * @default JSON.stringify
+	 */
+	serialize?: (value: T) => string;
+
+	/**
+	 * Converts the stored string back into a value.
+	 * @default JSON.parse
+	 */
+	deserialize?: (raw: string) => unknown;
+
+	/**
+	 * Checks a stored value before it is returned. Invalid values resolve to the fallback.
+	 */
+	validate?: (value: unknown) => boolean;
+
+	/**
+	 * Version of the stored shape. When set, values are stored along with their version.
+	 */
+	version?: number;
+
+	/**
+	 * Upgrades a value stored with an older version (0 for values stored without one).
+	 * Migrated values are written back on read.
+	 */
+	migrate?: (oldValue: unknown, oldVersion: number) => T;
+
+	/**
+	 * Prefix added to the key (`namespace:key`). `clear()` only removes keys in the namespace.
+	 */
+	namespace?: string;
+
+	/**
+	 * Time to live of stored values in milliseconds. Expired values resolve to the fallback and are removed.
+	 */
+	ttl?: number;
+
+	/**
+	 * What to do when a write exceeds the storage quota:
+	 * - `'throw'`: rethrow the error.
+	 * - `'evict'`: remove the least recently written entries of the namespace until the value fits.
+	 *   Entries are ordered by their last write, not by their last read.
+	 * - `'memory'`: keep the value in memory for the rest of the session.
+	 * @default 'throw'
+	 */
+	onQuotaExceeded?: QuotaExceededStrategy;
+
+	/**
+	 * Called when a write fails, before the quota strategy is applied.
+	 */
+	onError?: (error: unknown) => void;
+}
+
+// Marks the values wrapped by this hook, so stored objects that happen to have the same fields are not unwrapped.
+const WRAPPER_MARKER = '__useLocalStorage';
+
+interface StoredValue {
+	[WRAPPER_MARKER]?: 1;
+	data: string;
+	version?: number;
+	expiresAt?: number;
+	storedAt?: number;
+}
+
+interface DecodedValue<T> {
+	value: T | null;
+	migrated: boolean;
+	expiresAt?: number;
+}
+
+function isStoredValue(value: unknown): value is StoredValue {
+	if (typeof value !== 'object' || value === null) return false;
+	const stored = value as StoredValue;
+	return stored[WRAPPER_MARKER] === 1 && typeof stored.data === 'string';
+}
+
+function unwrap(raw: string): StoredValue {
+	try {
+		const parsed: unknown = JSON.parse(raw);
+		if (isStoredValue(parsed)) return parsed;
+	} catch {}
+	return { data: raw };
+}
+
+function isQuotaExceededError(error: unknown): boolean {
+	return (
+		error instanceof DOMException &&
+		(error.name === 'QuotaExceededError' ||
+			error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+			error.code === 22)
+	);
+}
+
+function getNamespacedKeys(prefix: string): string[] {
+	return Array.from({ length: window.localStorage.length }, (_, index) =>
+		window.localStorage.key(index)
+	).filter((key): key is string => key !== null && key.startsWith(prefix));
+}
+
+/**
+ * Removes the least recently written entry (written by this hook) under `prefix`.
+ * Reads do not count: entries are ordered by `storedAt`, so reading never writes to the storage.
+ * Returns whether something was evicted.
+ */
+function evictLeastRecentlyWritten(prefix: string, keep: string): boolean {
+	let oldest: { key: string; storedAt: number } | null = null;
+	for (const key of getNamespacedKeys(prefix)) {
+		if (key === keep) continue;
+		const raw = window.localStorage.getItem(key);
+		if (raw === null) continue;
+		const { storedAt } = unwrap(raw);
+		if (storedAt === undefined) continue;
+		if (!oldest || storedAt < oldest.storedAt) oldest = { key, storedAt };
+	}
+	if (!oldest) return false;
+	window.localStorage.removeItem(oldest.key);
+	emit(oldest.key);
+	return true;
 }
 
 export interface UseLocalStorageReturn<T> {
@@ -16,7 +212,7 @@ export interface UseLocalStorageReturn<T> {
 	/**
 	 * Serializes and stores a value in localStorage.
 	 */
-	set(value: T): void;
+	set(value: T, options?: LocalStorageSetOptions): void;
 
 	/**
 	 * Removes the key from localStorage.
@@ -24,7 +220,7 @@ export interface UseLocalStorageReturn<T> {
 	remove(): void;
 
 	/**
-	 * Clears all localStorage entries.
+	 * Clears all localStorage entries, or only those in the namespace.
 	 */
 	clear(): void;
 
@@ -34,6 +230,11 @@ export interface UseLocalStorageReturn<T> {
 	update(updater: (prev: T | null) => T): void;
 }
 
+export type UseLocalStorageStateReturn<T> = [
+	value: T | null,
+	setValue: (value: T | null | ((prev: T | null) => T | null)) => void,
+];
+
 /**
  * `useLocalStorage` is a React hook that provides a typed, unopinionated API for interacting with `window.localStorage`.
  *
@@ -41,7 +242,17 @@ export interface UseLocalStorageReturn<T> {
  * @param key Key of the item to store.
  * @param options Optional configuration.
  *
- * @returns A set of imperative helpers for interacting with localStorage.
+ * @returns A set of imperative helpers for interacting with localStorage,
+ * or `[value, setValue]` when `reactive` is enabled.
+ *
+ * Values go through `serialize`/`deserialize` (JSON by default) and the optional `validate` check.
+ * With a `version`, values stored by an older version are upgraded with `migrate` and rewritten on read.
+ *
+ * With a `ttl`, values are stored along with their expiry and resolve to the fallback (and are removed) once expired.
+ * A `namespace` prefixes the key and scopes `clear()`, and `onQuotaExceeded` decides what happens when a write does not fit.
+ *
+ * In reactive mode every hook instance reading the same key stays in sync, within the tab and across tabs
+ * (through the `storage` event). The server snapshot is always the fallback, so hydration never mismatches.
  *
  * @example
  * ```tsx
@@ -56,48 +267,225 @@ export interface UseLocalStorageReturn<T> {
  * const user = storage.get();
  * ```
  *
+ * @example
+ * ```tsx
+ * // Reactive mode, synced across components and tabs
+ * function SidebarToggle() {
+ *   const [collapsed, setCollapsed] = useLocalStorage<boolean>('sidebar', {
+ *     fallback: false,
+ *     reactive: true,
+ *   });
+ *
+ *   return (
+ *     <button onClick={() => setCollapsed(prev => !prev)}>
+ *       {collapsed ? 'Expand' : 'Collapse'}
+ *     </button>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Custom serialization and a versioned shape
+ * const storage = useLocalStorage<Settings>('settings', {
+ *   version: 2,
+ *   serialize: value => JSON.stringify({ ...value, seen: [...value.seen] }),
+ *   deserialize: raw => {
+ *     const parsed = JSON.parse(raw);
+ *     return { ...parsed, seen: new Set(parsed.seen) };
+ *   },
+ *   validate: value => typeof value === 'object' && value !== null,
+ *   migrate: (old, oldVersion) =>
+ *     oldVersion < 2 ? { ...(old as SettingsV1), seen: new Set() } : (old as Settings),
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Expiring, namespaced cache that evicts old entries when full
+ * const storage = useLocalStorage<SearchResults>(`search:${query}`, {
+ *   namespace: 'my-app',
+ *   ttl: 10 * 60 * 1000,
+ *   onQuotaExceeded: 'evict',
+ *   onError: error => console.warn('Could not persist results', error),
+ * });
+ *
+ * storage.set(results);
+ * storage.set(results, { ttl: 60 * 1000 });
+ * storage.clear(); // only removes `my-app:*` keys
+ * ```
+ *
  * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
  *
  * @since 0.0.1
  * @version 0.0.1
  *
  */
+export function useLocalStorage<T>(
+	key: string,
+	options: UseLocalStorageOptions<T> & { reactive: true }
+): UseLocalStorageStateReturn<T>;
 export function useLocalStorage<T>(
 	key: string,
 	options?: UseLocalStorageOptions<T>
-): UseLocalStorageReturn<T> {
+): UseLocalStorageReturn<T>;
+export function useLocalStorage<T>(
+	key: string,
+	options?: UseLocalStorageOptions<T>
+): UseLocalStorageReturn<T> | UseLocalStorageStateReturn<T> {
 	const fallback = options?.fallback ?? null;
+	const namespace = options?.namespace;
+	const prefix = namespace === undefined ? '' : `${namespace}:`;
+	const storageKey = `${prefix}${key}`;
 	const isSupported =
 		typeof window !== 'undefined' && typeof window.localStorage !== 'undefined';
 
-	const get = React.useCallback((): T | null => {
-		if (!isSupported) return fallback;
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	// Reads every option from the ref, so the decoded value only changes with the raw string.
+	const decode = React.useCallback((raw: string | null): DecodedValue<T> => {
+		const {
+			fallback = null,
+			deserialize = JSON.parse,
+			validate,
+			version,
+			migrate,
+		} = optionsRef.current ?? {};
+		if (raw === null) return { value: fallback, migrated: false };
 		try {
-			const raw = window.localStorage.getItem(key);
-			if (raw === null) return fallback;
-			return JSON.parse(raw) as T;
+			const stored = unwrap(raw);
+			if (stored.expiresAt !== undefined && stored.expiresAt <= Date.now()) {
+				return {
+					value: fallback,
+					migrated: false,
+					expiresAt: stored.expiresAt,
+				};
+			}
+			const storedVersion = stored.version ?? 0;
+			let value = deserialize(stored.data);
+			let migrated = false;
+			if (version !== undefined && storedVersion !== version) {
+				if (!migrate || storedVersion > version) {
+					return { value: fallback, migrated: false };
+				}
+				value = migrate(value, storedVersion);
+				migrated = true;
+			}
+			if (validate && !validate(value)) {
+				return { value: fallback, migrated: false };
+			}
+			return {
+				value: value as T,
+				migrated,
+				...(stored.expiresAt !== undefined && {
+					expiresAt: stored.expiresAt,
+				}),
+			};
 		} catch (error: unknown) {
-			return fallback;
+			return { value: fallback, migrated: false };
 		}
-	}, [key, fallback, isSupported]);
+	}, []);
+
+	const write = React.useCallback(
+		(raw: string) => {
+			const { onQuotaExceeded = 'throw', onError } = optionsRef.current ?? {};
+			try {
+				window.localStorage.setItem(storageKey, raw);
+				memoryFallback.delete(storageKey);
+				return;
+			} catch (error: unknown) {
+				onError?.(error);
+				if (!isQuotaExceededError(error) || onQuotaExceeded === 'throw') {
+					throw error;
+				}
+				if (onQuotaExceeded === 'memory') {
+					memoryFallback.set(storageKey, raw);
+					return;
+				}
+				while (evictLeastRecentlyWritten(prefix, storageKey)) {
+					try {
+						window.localStorage.setItem(storageKey, raw);
+						memoryFallback.delete(storageKey);
+						return;
+					} catch (retryError: unknown) {
+						if (!isQuotaExceededError(retryError)) throw retryError;
+					}
+				}
+				throw error;
+			}
+		},
+		[storageKey, prefix]
+	);
 
 	const set = React.useCallback(
-		(value: T) => {
+		(value: T, setOptions?: LocalStorageSetOptions) => {
 			if (!isSupported) return;
-			window.localStorage.setItem(key, JSON.stringify(value));
+			const {
+				serialize = JSON.stringify,
+				version,
+				ttl,
+				onQuotaExceeded,
+			} = optionsRef.current ?? {};
+			const data = serialize(value);
+			const entryTtl = setOptions?.ttl ?? ttl;
+			const isWrapped =
+				version !== undefined ||
+				entryTtl !== undefined ||
+				onQuotaExceeded === 'evict';
+			const now = Date.now();
+			write(
+				isWrapped
+					? JSON.stringify({
+							[WRAPPER_MARKER]: 1,
+							data,
+							...(version !== undefined && { version }),
+							...(entryTtl !== undefined && { expiresAt: now + entryTtl }),
+							storedAt: now,
+						})
+					: data
+			);
+			emit(storageKey);
 		},
-		[key, isSupported]
+		[storageKey, isSupported, write]
 	);
 
 	const remove = React.useCallback(() => {
 		if (!isSupported) return;
-		window.localStorage.removeItem(key);
-	}, [key, isSupported]);
+		memoryFallback.delete(storageKey);
+		window.localStorage.removeItem(storageKey);
+		emit(storageKey);
+	}, [storageKey, isSupported]);
+
+	const get = React.useCallback((): T | null => {
+		if (!isSupported) return fallback;
+		try {
+			const { value, migrated, expiresAt } = decode(
+				localStorageStore.getSnapshot(storageKey)
+			);
+			if (expiresAt !== undefined && expiresAt <= Date.now()) remove();
+			else if (migrated && value !== null) set(value);
+			return value;
+		} catch (error: unknown) {
+			return fallback;
+		}
+	}, [storageKey, fallback, isSupported, decode, set, remove]);
 
 	const clear = React.useCallback(() => {
 		if (!isSupported) return;
-		window.localStorage.clear();
-	}, [isSupported]);
+		if (namespace === undefined) {
+			memoryFallback.clear();
+			window.localStorage.clear();
+		} else {
+			memoryFallback.forEach((_, key) => {
+				if (key.startsWith(prefix)) memoryFallback.delete(key);
+			});
+			getNamespacedKeys(prefix).forEach(key => {
+				window.localStorage.removeItem(key);
+			});
+		}
+		emit(null);
+	}, [isSupported, namespace, prefix]);
 
 	const update = React.useCallback(
 		(updater: (prev: T | null) => T) => {
@@ -108,11 +496,72 @@ export function useLocalStorage<T>(
 		[get, set]
 	);
 
-	return {
-		get,
-		set,
-		remove,
-		clear,
-		update,
-	};
+	const reactive = options?.reactive ?? false;
+
+	const suscribe = React.useCallback(
+		(listener: Listener) => {
+			if (!reactive) return () => {};
+			return localStorageStore.suscribe(storageKey, listener);
+		},
+		[storageKey, reactive]
+	);
+	const getSnapshot = React.useCallback(
+		() => (reactive ? localStorageStore.getSnapshot(storageKey) : null),
+		[storageKey, reactive]
+	);
+
+	const raw = React.useSyncExternalStore(
+		suscribe,
+		getSnapshot,
+		localStorageStore.getServerSnapshot
+	);
+
+	const decoded = React.useMemo(() => decode(raw), [decode, raw]);
+	const value = decoded.value;
+
+	React.useEffect(() => {
+		if (decoded.migrated && decoded.value !== null) set(decoded.value);
+	}, [decoded, set]);
+
+	React.useEffect(() => {
+		if (decoded.expiresAt === undefined) return;
+		const delay = Math.max(0, decoded.expiresAt - Date.now());
+		// Timers overflow past ~24.8 days; the value is checked again on the next read.
+		if (delay > 2_147_483_647) return;
+		const timeout = setTimeout(remove, delay);
+		return () => clearTimeout(timeout);
+	}, [decoded, remove]);
+
+	const setValue = React.useCallback(
+		(next: T | null | ((prev: T | null) => T | null)) => {
+			const resolved =
+				typeof next === 'function'
+					? (next as (prev: T | null) => T | null)(get())
+					: next;
+			if (resolved === null) {
+				remove();
+			} else {
+				set(resolved);
+			}
+		},
+		[get, set, remove]
+	);
+
+	const helpers = React.useMemo(
+		() => ({
+			get,
+			set,
+			remove,
+			clear,
+			update,
+		}),
+		[get, set, remove, clear, update]
+	);
+
+	const state = React.useMemo(
+		(): UseLocalStorageStateReturn<T> => [value, setValue],
+		[value, setValue]
+	);
+
+	return reactive ? state : helpers;
 }
@@ -0,0 +1,371 @@
+import * as React from 'react';
+import {
+	type FetchClient,
+	type FetchConfig,
+	getQueryKey,
+	performFetch,
+	type QueryCache,
+	type QueryFilter,
+	useFetchClient,
+	useQueryCache,
+} from './useAsyncState';
+
+export interface MutationFunctionContext {
+	/**
+	 * Aborted when the mutation is reset.
+	 */
+	signal: AbortSignal;
+
+	/**
+	 * Sends a request through the current fetch client, with the same retries, parsing and validation as `useAsyncState`.
+	 */
+	fetch: <T>(url: string, config?: FetchConfig) => Promise<T>;
+}
+
+export interface MutateHelpers {
+	/**
+	 * Optimistically writes the cached data of a `useAsyncState` entry.
+	 * In-flight requests for that entry are cancelled, and the previous value is restored if the mutation fails.
+	 */
+	setQueryData: <T>(
+		url: string,
+		updater: T | null | ((previous: T | null) => T | null),
+		params?: Record<string, string | number | boolean>
+	) => void;
+}
+
+export interface UseMutationOptions<TData, TVariables, TContext> {
+	/**
+	 * Performs the mutation.
+	 */
+	mutationFn: (
+		variables: TVariables,
+		context: MutationFunctionContext
+	) => Promise<TData>;
+
+	/**
+	 * Mutations sharing the same key run one after another, in call order.
+	 */
+	mutationKey?: string;
+
+	/**
+	 * Called before the mutation runs. Use it to write optimistic data.
+	 * The returned value is passed to the other callbacks.
+	 */
+	onMutate?: (
+		variables: TVariables,
+		helpers: MutateHelpers
+	) => TContext | Promise<TContext>;
+
+	/**
+	 * Called when the mutation succeeds.
+	 */
+	onSuccess?: (
+		data: TData,
+		variables: TVariables,
+		context: TContext | undefined
+	) => void | Promise<void>;
+
+	/**
+	 * Called when the mutation fails, after the optimistic writes were rolled back.
+	 */
+	onError?: (
+		error: Error,
+		variables: TVariables,
+		context: TContext | undefined
+	) => void | Promise<void>;
+
+	/**
+	 * Called when the mutation either succeeds or fails.
+	 */
+	onSettled?: (
+		data: TData | null,
+		error: Error | null,
+		variables: TVariables,
+		context: TContext | undefined
+	) => void | Promise<void>;
+
+	/**
+	 * Entries of the query cache invalidated after a successful mutation.
+	 * Strings are resolved against the fetch client `baseUrl`.
+	 */
+	invalidates?: QueryFilter | QueryFilter[];
+
+	/**
+	 * Cache to use instead of the one provided by `QueryCacheProvider`.
+	 */
+	cache?: QueryCache;
+
+	/**
+	 * Fetch client to use instead of the one provided by `FetchClientProvider`.
+	 */
+	client?: FetchClient;
+}
+
+export interface UseMutationState<TData, TVariables> {
+	data: TData | null;
+	error: Error | null;
+	variables: TVariables | null;
+	isIdle: boolean;
+	isPending: boolean;
+	isSuccess: boolean;
+	isError: boolean;
+}
+
+export interface UseMutationReturn<TData, TVariables> extends UseMutationState<
+	TData,
+	TVariables
+> {
+	/**
+	 * Runs the mutation. Errors are only reported through state and callbacks.
+	 */
+	mutate: (variables: TVariables) => void;
+
+	/**
+	 * Runs the mutation and returns a promise that rejects on failure.
+	 */
+	mutateAsync: (variables: TVariables) => Promise<TData>;
+
+	/**
+	 * Aborts every running or queued mutation of this hook and resets the state.
+	 */
+	reset: () => void;
+}
+
+const mutationQueues = new Map<string, Promise<unknown>>();
+
+function enqueue<T>(key: string | undefined, task: () => Promise<T>) {
+	if (key === undefined) return task();
+	const previous = mutationQueues.get(key) ?? Promise.resolve();
+	const next = previous.catch(() => undefined).then(task);
+	mutationQueues.set(key, next);
+	next
+		.catch(() => undefined)
+		.finally(() => {
+			if (mutationQueues.get(key) === next) mutationQueues.delete(key);
+		});
+	return next;
+}
+
+function toError(err: unknown): Error {
+	return err instanceof Error ? err : new Error(String(err));
+}
+
+const idleState = {
+	data: null,
+	error: null,
+	variables: null,
+	isIdle: true,
+	isPending: false,
+	isSuccess: false,
+	isError: false,
+};
+
+/**
+ * `useMutation` runs write requests with optimistic updates and automatic rollback.
+ * Optimistic writes made through `setQueryData` in `onMutate` are restored when the mutation fails,
+ * and the related `useAsyncState` entries can be invalidated once it succeeds.
+ *
+ * @template TData Type of the mutation result.
+ * @template TVariables Type of the variables passed to `mutate`.
+ * @template TContext Type of the value returned by `onMutate`.
+ *
+ * @param options Mutation function and lifecycle callbacks.
+ *
+ * @returns Mutation state and helpers.
+ *
+ * @example
+ * ```tsx
+ * function TodoItem({ todo }: { todo: Todo }) {
+ *   const toggle = useMutation<Todo, Todo>({
+ *     mutationKey: `todo:${todo.id}`,
+ *     mutationFn: (next, { fetch }) =>
+ *       fetch(`/api/todos/${next.id}`, {
+ *         method: 'PATCH',
+ *         headers: { 'Content-Type': 'application/json' },
+ *         body: JSON.stringify({ done: next.done }),
+ *       }),
+ *     onMutate: (next, { setQueryData }) => {
+ *       setQueryData<Todo[]>('/api/todos', todos =>
+ *         todos?.map(item => (item.id === next.id ? next : item)) ?? null
+ *       );
+ *     },
+ *     invalidates: '/api/todos',
+ *   });
+ *
+ *   return (
+ *     <li onClick={() => toggle.mutate({ ...todo, done: !todo.done })}>
+ *       {todo.title} {toggle.isError && '(failed, reverted)'}
+ *     </li>
+ *   );
+ * }
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function useMutation<TData, TVariables = void, TContext = unknown>(
+	options: UseMutationOptions<TData, TVariables, TContext>
+): UseMutationReturn<TData, TVariables> {
+	const contextCache = useQueryCache();
+	const cache = options.cache ?? contextCache;
+	const contextClient = useFetchClient();
+	const client = options.client ?? contextClient;
+
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	const [state, setState] =
+		React.useState<UseMutationState<TData, TVariables>>(idleState);
+
+	const controllersRef = React.useRef(new Set<AbortController>());
+	const mountedRef = React.useRef(true);
+
+	const safeSetState = React.useCallback(
+		(next: UseMutationState<TData, TVariables>) => {
+			if (mountedRef.current) setState(next);
+		},
+		[]
+	);
+
+	const mutateAsync = React.useCallback(
+		(variables: TVariables): Promise<TData> => {
+			const controller = new AbortController();
+			controllersRef.current.add(controller);
+
+			const run = async () => {
+				controller.signal.throwIfAborted();
+				const {
+					mutationFn,
+					onMutate,
+					onSuccess,
+					onError,
+					onSettled,
+					invalidates,
+				} = optionsRef.current;
+
+				safeSetState({
+					...idleState,
+					variables,
+					isIdle: false,
+					isPending: true,
+				});
+
+				const snapshots = new Map<string, unknown>();
+				const helpers: MutateHelpers = {
+					setQueryData: (url, updater, params) => {
+						const key = getQueryKey(client.resolveUrl(url), params);
+						const previous = cache.getSnapshot(key)?.data ?? null;
+						if (!snapshots.has(key)) snapshots.set(key, previous);
+						cache.cancel(key);
+						const next =
+							typeof updater === 'function'
+								? (updater as (previous: unknown) => unknown)(previous)
+								: updater;
+						cache.setData(key, next);
+					},
+				};
+
+				let context: TContext | undefined;
+				let data: TData;
+				try {
+					context = await onMutate?.(variables, helpers);
+					data = await mutationFn(variables, {
+						signal: controller.signal,
+						fetch: (url, config) =>
+							performFetch(client, url, config, {
+								signal: controller.signal,
+								report: () => {},
+							}),
+					});
+				} catch (err: unknown) {
+					const error = toError(err);
+					snapshots.forEach((previous, key) => cache.setData(key, previous));
+					// Mutations aborted by `reset` are abandoned: no state updates nor callbacks.
+					if (controller.signal.aborted) throw error;
+					safeSetState({
+						data: null,
+						error,
+						variables,
+						isIdle: false,
+						isPending: false,
+						isSuccess: false,
+						isError: true,
+					});
+					try {
+						await onError?.(error, variables, context);
+					} finally {
+						try {
+							await onSettled?.(null, error, variables, context);
+						} finally {
+							client.onError?.(error);
+						}
+					}
+					throw error;
+				}
+
+				// Outside the rollback: a throwing callback does not undo a successful mutation.
+				safeSetState({
+					data,
+					error: null,
+					variables,
+					isIdle: false,
+					isPending: false,
+					isSuccess: true,
+					isError: false,
+				});
+				await onSuccess?.(data, variables, context);
+				await onSettled?.(data, null, variables, context);
+
+				if (invalidates !== undefined) {
+					const filters = Array.isArray(invalidates)
+						? invalidates
+						: [invalidates];
+					await Promise.all(
+						filters.map(filter =>
+							cache.invalidate(
+								typeof filter === 'string' ? client.resolveUrl(filter) : filter
+							)
+						)
+					);
+				}
+				return data;
+			};
+
+			return enqueue(optionsRef.current.mutationKey, run).finally(() => {
+				controllersRef.current.delete(controller);
+			});
+		},
+		[cache, client, safeSetState]
+	);
+
+	const mutate = React.useCallback(
+		(variables: TVariables) => {
+			mutateAsync(variables).catch(() => undefined);
+		},
+		[mutateAsync]
+	);
+
+	const reset = React.useCallback(() => {
+		controllersRef.current.forEach(controller => controller.abort());
+		controllersRef.current.clear();
+		setState(idleState);
+	}, []);
+
+	React.useEffect(() => {
+		mountedRef.current = true;
+		return () => {
+			mountedRef.current = false;
+		};
+	}, []);
+
+	return {
+		...state,
+		mutate,
+		mutateAsync,
+		reset,
+	};
+}
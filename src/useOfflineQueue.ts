@@ -0,0 +1,443 @@
+import * as React from 'react';
+import {
+	defaultRetryOn,
+	exponentialBackoff,
+	type FetchConfig,
+	FetchError,
+	performFetch,
+	useFetchClient,
+} from './useAsyncState';
+import { requestToPromise, useIndexedDB } from './useIndexedDB';
+import { useNetworkInformation } from './useNetworkInformation';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+function emit() {
+	listeners.forEach(listener => listener());
+}
+
+const defaultRetryDelay = exponentialBackoff({
+	baseDelay: 1000,
+	maxDelay: 30000,
+});
+
+const onlineStore = {
+	suscribe(listener: Listener) {
+		// The window listeners are shared: attached for the first subscriber, removed after the last one.
+		if (listeners.size === 0 && typeof window !== 'undefined') {
+			window.addEventListener('online', emit);
+			window.addEventListener('offline', emit);
+		}
+		listeners.add(listener);
+
+		return () => {
+			listeners.delete(listener);
+			if (listeners.size === 0 && typeof window !== 'undefined') {
+				window.removeEventListener('online', emit);
+				window.removeEventListener('offline', emit);
+			}
+		};
+	},
+	getSnapshot(): boolean {
+		if (typeof navigator === 'undefined') return true;
+		return navigator.onLine;
+	},
+	getServerSnapshot(): boolean {
+		return true;
+	},
+};
+
+/**
+ * Request stored in the outbox. Every field must be structured-cloneable,
+ * so bodies should be strings, Blobs or ArrayBuffers (not FormData or streams).
+ */
+export interface OutboxRequest {
+	method?: string;
+	headers?: Record<string, string>;
+	body?: string | Blob | ArrayBuffer | null;
+	params?: Record<string, string | number | boolean>;
+}
+
+export interface OutboxEntry {
+	/**
+	 * Unique id of the entry.
+	 */
+	id: string;
+
+	/**
+	 * Target URL, resolved by the fetch client when replayed.
+	 */
+	url: string;
+
+	/**
+	 * Stored request.
+	 */
+	request: OutboxRequest;
+
+	/**
+	 * Time the write was enqueued.
+	 */
+	createdAt: number;
+
+	/**
+	 * Number of failed replay attempts.
+	 */
+	attempts: number;
+}
+
+export type ConflictResolution = 'retry' | 'discard';
+
+export interface UseOfflineQueueOptions {
+	/**
+	 * IndexedDB database name.
+	 * @default 'vibehooks-outbox'
+	 */
+	dbName?: string;
+
+	/**
+	 * Object store holding the entries.
+	 * @default 'outbox'
+	 */
+	storeName?: string;
+
+	/**
+	 * Time in milliseconds after which a pending entry is dropped instead of replayed.
+	 */
+	maxAge?: number;
+
+	/**
+	 * Extra request configuration used when replaying (timeout, retries, parse...).
+	 */
+	config?: Omit<FetchConfig, 'method' | 'headers' | 'body' | 'params'>;
+
+	/**
+	 * Decides whether the queue should flush with the current network conditions.
+	 * Only called while the browser is online.
+	 * @default () => true
+	 */
+	shouldFlush?: (network: ReturnType<typeof useNetworkInformation>) => boolean;
+
+	/**
+	 * Delay before flushing again after a network error, a 5xx response or a `retry` conflict,
+	 * given the number of failed attempts of the first pending entry.
+	 * @default exponentialBackoff({ baseDelay: 1000, maxDelay: 30000 })
+	 */
+	retryDelay?: (attempt: number) => number;
+
+	/**
+	 * Called when the server rejects a replayed write with 409 or 412.
+	 * Return `retry` to keep the entry (e.g. after rebasing it), or `discard` to drop it.
+	 * @default () => 'discard'
+	 */
+	onConflict?: (
+		entry: OutboxEntry,
+		error: FetchError
+	) => ConflictResolution | Promise<ConflictResolution>;
+
+	/**
+	 * Called when a write was replayed successfully.
+	 */
+	onReplay?: (entry: OutboxEntry, data: unknown) => void;
+
+	/**
+	 * Called when a write is dropped because the server rejected it.
+	 */
+	onError?: (entry: OutboxEntry, error: Error) => void;
+
+	/**
+	 * Called when a write is dropped because it is older than `maxAge`.
+	 */
+	onExpire?: (entry: OutboxEntry) => void;
+}
+
+export interface UseOfflineQueueReturn {
+	/**
+	 * Writes waiting to be sent, oldest first.
+	 */
+	pending: OutboxEntry[];
+
+	/**
+	 * Whether the browser reports a network connection.
+	 */
+	isOnline: boolean;
+
+	/**
+	 * Whether the queue is currently being replayed.
+	 */
+	isFlushing: boolean;
+
+	/**
+	 * Last error raised while reading or writing the outbox, e.g. when IndexedDB cannot be opened.
+	 */
+	error: Error | null;
+
+	/**
+	 * Stores a write in the outbox and sends it right away when possible.
+	 */
+	enqueue: (url: string, request?: OutboxRequest) => Promise<OutboxEntry>;
+
+	/**
+	 * Replays the pending writes in order.
+	 */
+	flush: () => Promise<void>;
+
+	/**
+	 * Drops a pending write.
+	 */
+	remove: (id: string) => Promise<void>;
+
+	/**
+	 * Drops every pending write.
+	 */
+	clear: () => Promise<void>;
+}
+
+/**
+ * `useOfflineQueue` is a persistent outbox for writes made on flaky connections.
+ * Writes are stored in IndexedDB (through `useIndexedDB`) and replayed in order through the current
+ * fetch client when the browser goes back online, as long as `shouldFlush` accepts the network conditions.
+ *
+ * Server rejections are dropped (or handed to `onConflict` for 409/412), while network errors and
+ * 5xx responses stop the flush and keep the remaining entries, which are flushed again after `retryDelay`.
+ * Writes enqueued while a flush runs are sent by a new flush once it ends.
+ *
+ * @param options Storage, replay and conflict options.
+ *
+ * @returns Pending entries, connectivity state and helpers.
+ *
+ * @example
+ * ```tsx
+ * function Checklist() {
+ *   const outbox = useOfflineQueue({
+ *     maxAge: 24 * 60 * 60 * 1000,
+ *     shouldFlush: network => network.effectiveType !== 'slow-2g',
+ *     onConflict: () => 'discard',
+ *   });
+ *
+ *   const complete = (task: Task) =>
+ *     outbox.enqueue(`/api/tasks/${task.id}`, {
+ *       method: 'PATCH',
+ *       headers: { 'Content-Type': 'application/json' },
+ *       body: JSON.stringify({ done: true }),
+ *     });
+ *
+ *   return (
+ *     <>
+ *       {!outbox.isOnline && <p>Offline, {outbox.pending.length} changes pending</p>}
+ *       <TaskList onComplete={complete} />
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function useOfflineQueue(
+	options: UseOfflineQueueOptions = {}
+): UseOfflineQueueReturn {
+	const { dbName = 'vibehooks-outbox', storeName = 'outbox' } = options;
+
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	const client = useFetchClient();
+	const network = useNetworkInformation();
+	const networkRef = React.useRef(network);
+	networkRef.current = network;
+
+	const isOnline = React.useSyncExternalStore(
+		onlineStore.suscribe,
+		onlineStore.getSnapshot,
+		onlineStore.getServerSnapshot
+	);
+
+	const dbOptions = React.useMemo(
+		() => ({
+			name: dbName,
+			version: 1,
+			onUpgrade(db: IDBDatabase) {
+				if (!db.objectStoreNames.contains(storeName)) {
+					db.createObjectStore(storeName, { keyPath: 'id' });
+				}
+			},
+		}),
+		[dbName, storeName]
+	);
+	const { withStore } = useIndexedDB(dbOptions);
+
+	const [pending, setPending] = React.useState<OutboxEntry[]>([]);
+	const [isFlushing, setIsFlushing] = React.useState<boolean>(false);
+	const [error, setError] = React.useState<Error | null>(null);
+	const flushingRef = React.useRef(false);
+	const flushAgainRef = React.useRef(false);
+	const retryTimerRef = React.useRef<ReturnType<typeof setTimeout> | undefined>(
+		undefined
+	);
+
+	const reportError = React.useCallback((err: unknown) => {
+		setError(err instanceof Error ? err : new Error(String(err)));
+	}, []);
+
+	const readAll = React.useCallback(async () => {
+		const entries = await withStore(
+			storeName,
+			store => requestToPromise(store.getAll() as IDBRequest<OutboxEntry[]>),
+			{ mode: 'readonly' }
+		);
+		const sorted = entries.sort(
+			(a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id)
+		);
+		setPending(sorted);
+		setError(null);
+		return sorted;
+	}, [withStore, storeName]);
+
+	const write = React.useCallback(
+		(fn: (store: IDBObjectStore) => IDBRequest) =>
+			withStore(storeName, async store => {
+				fn(store);
+			}),
+		[withStore, storeName]
+	);
+
+	const flush = React.useCallback(async (): Promise<void> => {
+		if (flushingRef.current) {
+			flushAgainRef.current = true;
+			return;
+		}
+		if (!onlineStore.getSnapshot()) return;
+		const { shouldFlush } = optionsRef.current;
+		if (shouldFlush && !shouldFlush(networkRef.current)) return;
+
+		clearTimeout(retryTimerRef.current);
+		flushingRef.current = true;
+		flushAgainRef.current = false;
+		setIsFlushing(true);
+		let failedAttempts = 0;
+		try {
+			const entries = await readAll();
+			for (const entry of entries) {
+				const { maxAge, config, onReplay, onError, onConflict, onExpire } =
+					optionsRef.current;
+
+				if (maxAge !== undefined && Date.now() - entry.createdAt > maxAge) {
+					await write(store => store.delete(entry.id));
+					onExpire?.(entry);
+					continue;
+				}
+
+				try {
+					const data = await performFetch(
+						client,
+						entry.url,
+						{ ...config, ...entry.request },
+						{ signal: new AbortController().signal, report: () => {} }
+					);
+					await write(store => store.delete(entry.id));
+					onReplay?.(entry, data);
+				} catch (err: unknown) {
+					const error = err instanceof Error ? err : new Error(String(err));
+					const isConflict =
+						error instanceof FetchError &&
+						(error.status === 409 || error.status === 412);
+
+					if (isConflict) {
+						const resolution = await (onConflict?.(entry, error) ?? 'discard');
+						if (resolution === 'discard') {
+							await write(store => store.delete(entry.id));
+							continue;
+						}
+					} else if (!defaultRetryOn(error)) {
+						await write(store => store.delete(entry.id));
+						onError?.(entry, error);
+						continue;
+					}
+
+					failedAttempts = entry.attempts + 1;
+					await write(store =>
+						store.put({ ...entry, attempts: failedAttempts })
+					);
+					break;
+				}
+			}
+		} finally {
+			flushingRef.current = false;
+			setIsFlushing(false);
+			await readAll().catch(() => undefined);
+		}
+
+		if (failedAttempts > 0) {
+			// The remaining entries, including any enqueued meanwhile, wait behind the failed one.
+			const { retryDelay = defaultRetryDelay } = optionsRef.current;
+			retryTimerRef.current = setTimeout(() => {
+				flush().catch(reportError);
+			}, retryDelay(failedAttempts));
+		} else if (flushAgainRef.current) {
+			await flush();
+		}
+	}, [client, readAll, write, reportError]);
+
+	const enqueue = React.useCallback(
+		async (url: string, request: OutboxRequest = {}) => {
+			const entry: OutboxEntry = {
+				id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`,
+				url,
+				request,
+				createdAt: Date.now(),
+				attempts: 0,
+			};
+			await write(store => store.put(entry));
+			await readAll();
+			flush().catch(reportError);
+			return entry;
+		},
+		[write, readAll, flush, reportError]
+	);
+
+	const remove = React.useCallback(
+		async (id: string) => {
+			await write(store => store.delete(id));
+			await readAll();
+		},
+		[write, readAll]
+	);
+
+	const clear = React.useCallback(async () => {
+		await write(store => store.clear());
+		await readAll();
+	}, [write, readAll]);
+
+	React.useEffect(() => {
+		readAll().catch(reportError);
+	}, [readAll, reportError]);
+
+	React.useEffect(() => () => clearTimeout(retryTimerRef.current), [flush]);
+
+	React.useEffect(() => {
+		if (isOnline) flush().catch(reportError);
+	}, [
+		isOnline,
+		network.effectiveType,
+		network.type,
+		network.saveData,
+		flush,
+		reportError,
+	]);
+
+	return {
+		pending,
+		isOnline,
+		isFlushing,
+		error,
+		enqueue,
+		flush,
+		remove,
+		clear,
+	};
+}
@@ -1,4 +1,5 @@
 import * as React from 'react';
+import { localStorageAdapter, type SyncStorageAdapter } from './useStorage';
 
 type Listener = () => void;
 
@@ -32,33 +33,61 @@ export const systemLanguageStore = {
 
 const storageKey = 'preferred-language';
 
+const userListeners = new Set<Listener>();
+
+function emitUser() {
+	userListeners.forEach(listener => listener());
+}
+
+let userLanguageAdapter: SyncStorageAdapter = localStorageAdapter;
+let userLanguageServerAdapter: SyncStorageAdapter | null = null;
+let adapterSubscribers = 0;
+let unsuscribeAdapter: (() => void) | null = null;
+
 export const userLanguageStore = {
 	suscribe(listener: Listener) {
-		listeners.add(listener);
-
-		if (typeof window !== 'undefined') {
-			const onStorage = (event: StorageEvent) => {
-				if (event.key === storageKey) emit();
-			};
-			window.addEventListener('storage', onStorage);
-			return () => {
-				listeners.delete(listener);
-				window.removeEventListener('storage', onStorage);
-			};
-		}
-		return () => listeners.delete(listener);
+		userListeners.add(listener);
+		// A single adapter subscription, moved to the new adapter by `setAdapter`.
+		adapterSubscribers += 1;
+		unsuscribeAdapter ??= userLanguageAdapter.suscribe(storageKey, emitUser);
+		return () => {
+			userListeners.delete(listener);
+			adapterSubscribers -= 1;
+			if (adapterSubscribers > 0) return;
+			unsuscribeAdapter?.();
+			unsuscribeAdapter = null;
+		};
 	},
 	getSnapshot(): string {
-		if (typeof window === 'undefined') return 'en';
-		return localStorage.getItem(storageKey) ?? 'en';
+		return userLanguageAdapter.getItem(storageKey) ?? 'en';
 	},
 	getSeverSnapshot(): string {
-		return '';
+		return userLanguageServerAdapter?.getItem(storageKey) ?? '';
 	},
 	setLanguage(language: string) {
 		if (typeof window === 'undefined') return;
-		localStorage.setItem(storageKey, language);
-		emit();
+		// The adapter subscription notifies the mounted hooks.
+		userLanguageAdapter.setItem(storageKey, language);
+	},
+	/**
+	 * Changes where the user-selected language is persisted.
+	 * Defaults to `localStorageAdapter`. Mounted hooks switch to the new adapter.
+	 */
+	setAdapter(adapter: SyncStorageAdapter) {
+		userLanguageAdapter = adapter;
+		if (unsuscribeAdapter) {
+			unsuscribeAdapter();
+			unsuscribeAdapter = adapter.suscribe(storageKey, emitUser);
+		}
+		emitUser();
+	},
+	/**
+	 * Sets the adapter read for the server snapshot (server render and hydration),
+	 * e.g. a memory adapter filled from the request cookies.
+	 * By default the server snapshot is empty, so the server render uses the system language.
+	 */
+	setServerAdapter(adapter: SyncStorageAdapter | null) {
+		userLanguageServerAdapter = adapter;
 	},
 };
 
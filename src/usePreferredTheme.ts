@@ -1,4 +1,5 @@
 import * as React from 'react';
+import { localStorageAdapter, type SyncStorageAdapter } from './useStorage';
 
 export type Theme = string;
 export type Listener = () => void;
@@ -37,37 +38,65 @@ export const systemThemeStore = {
 
 const storageKey = 'preferred-theme';
 
+const userListeners = new Set<Listener>();
+
+function emitUser() {
+	userListeners.forEach(listener => listener());
+}
+
+let userThemeAdapter: SyncStorageAdapter = localStorageAdapter;
+let userThemeServerAdapter: SyncStorageAdapter | null = null;
+let adapterSubscribers = 0;
+let unsuscribeAdapter: (() => void) | null = null;
+
 export const userThemeStore = {
 	suscribe(listener: Listener) {
-		listeners.add(listener);
-
-		if (typeof window !== 'undefined') {
-			const onStorage = (event: StorageEvent) => {
-				if (event.key === storageKey) emit();
-			};
-			window.addEventListener('storage', onStorage);
-			return () => {
-				listeners.delete(listener);
-				window.removeEventListener('storage', onStorage);
-			};
-		}
-		return () => listeners.delete(listener);
+		userListeners.add(listener);
+		// A single adapter subscription, moved to the new adapter by `setAdapter`.
+		adapterSubscribers += 1;
+		unsuscribeAdapter ??= userThemeAdapter.suscribe(storageKey, emitUser);
+		return () => {
+			userListeners.delete(listener);
+			adapterSubscribers -= 1;
+			if (adapterSubscribers > 0) return;
+			unsuscribeAdapter?.();
+			unsuscribeAdapter = null;
+		};
 	},
 	getSnapshot(): Theme | null {
-		if (typeof window === 'undefined') return null;
-		return localStorage.getItem(storageKey) ?? null;
+		return userThemeAdapter.getItem(storageKey) ?? null;
 	},
 	getSeverSnapshot(): Theme | null {
-		return null;
+		return userThemeServerAdapter?.getItem(storageKey) ?? null;
 	},
 	setTheme(theme: Theme | null) {
 		if (typeof window === 'undefined') return;
+		// The adapter subscription notifies the mounted hooks.
 		if (theme === null) {
-			localStorage.removeItem(storageKey);
+			userThemeAdapter.removeItem(storageKey);
 		} else {
-			localStorage.setItem(storageKey, theme);
+			userThemeAdapter.setItem(storageKey, theme);
+		}
+	},
+	/**
+	 * Changes where the user-selected theme is persisted.
+	 * Defaults to `localStorageAdapter`. Mounted hooks switch to the new adapter.
+	 */
+	setAdapter(adapter: SyncStorageAdapter) {
+		userThemeAdapter = adapter;
+		if (unsuscribeAdapter) {
+			unsuscribeAdapter();
+			unsuscribeAdapter = adapter.suscribe(storageKey, emitUser);
 		}
-		emit();
+		emitUser();
+	},
+	/**
+	 * Sets the adapter read for the server snapshot (server render and hydration),
+	 * e.g. a memory adapter filled from the request cookies.
+	 * By default the server snapshot is empty, so the server render uses the system theme.
+	 */
+	setServerAdapter(adapter: SyncStorageAdapter | null) {
+		userThemeServerAdapter = adapter;
 	},
 };
 
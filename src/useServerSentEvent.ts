@@ -1,6 +1,38 @@
 import * as React from 'react';
+import { exponentialBackoff } from './useAsyncState';
+
+export type ServerSentEventParser<T> = 'text' | 'json' | ((data: string) => T);
+
+export type ServerSentEventTransport = 'eventsource' | 'fetch';
+
+/**
+ * Subset of the `EventSource` interface implemented by both transports.
+ */
+export interface ServerSentEventSource {
+	readonly readyState: number;
+	onopen: ((event: Event) => void) | null;
+	onmessage: ((event: MessageEvent<string>) => void) | null;
+	onerror: ((event: Event) => void) | null;
+	addEventListener(
+		type: string,
+		listener: (event: MessageEvent<string>) => void
+	): void;
+	close(): void;
+}
+
+export interface FetchEventSourceInit {
+	method?: string;
+	headers?: HeadersInit;
+	body?: BodyInit | null;
+	withCredentials?: boolean;
 
-export interface UseServerSentEventOptions {
+	/**
+	 * Initial `Last-Event-ID`, to resume a previous stream.
+	 */
+	lastEventId?: string;
+}
+
+export interface UseServerSentEventOptions<T = string> {
 	/**
 	 * Whether the connection should be established.
 	 * Usefull to lazily connect.
@@ -12,6 +44,67 @@ export interface UseServerSentEventOptions {
 	 */
 	withCredentials?: boolean;
 
+	/**
+	 * Transport used to connect. `'fetch'` supports `method`, `headers` and `body`,
+	 * e.g. for authenticated or POST endpoints.
+	 * @default 'eventsource'
+	 */
+	transport?: ServerSentEventTransport;
+
+	/**
+	 * HTTP method. Only used by the `'fetch'` transport.
+	 * @default 'GET'
+	 */
+	method?: string;
+
+	/**
+	 * Request headers. Only used by the `'fetch'` transport.
+	 * Read when the hook opens a connection, so changing them does not restart the current stream:
+	 * call `reconnect()` to send the new ones right away.
+	 */
+	headers?: HeadersInit;
+
+	/**
+	 * Request body. Only used by the `'fetch'` transport.
+	 * Like `headers`, it is read when the hook opens a connection.
+	 */
+	body?: BodyInit | null;
+
+	/**
+	 * Handlers for named events (`event:` field), keyed by event name.
+	 */
+	events?: Record<string, (event: MessageEvent<string>) => void>;
+
+	/**
+	 * How the data of incoming events is exposed in `data`.
+	 * @default 'text'
+	 */
+	parse?: ServerSentEventParser<T>;
+
+	/**
+	 * Whether to open a new connection once the browser stops retrying (`readyState === CLOSED`).
+	 * @default true
+	 */
+	reconnect?: boolean;
+
+	/**
+	 * Maximum number of consecutive reconnection attempts.
+	 * @default 10
+	 */
+	maxReconnectAttempts?: number;
+
+	/**
+	 * Delay before a reconnection attempt (1-based), in milliseconds.
+	 * @default exponentialBackoff({ baseDelay: 1000, maxDelay: 30000 })
+	 */
+	reconnectDelay?: (attempt: number) => number;
+
+	/**
+	 * Query parameter carrying the last event id on reconnections opened by the hook,
+	 * since a new EventSource cannot send the `Last-Event-ID` header.
+	 */
+	lastEventIdParam?: string;
+
 	/**
 	 * Called then the connection is opened.
 	 */
@@ -26,24 +119,234 @@ export interface UseServerSentEventOptions {
 	 * Called when an error occurs.
 	 */
 	onError?: (event: Event) => void;
+
+	/**
+	 * Called when `maxReconnectAttempts` is reached.
+	 */
+	onReconnectFailed?: () => void;
 }
 
-export interface UseServerSentEventResult {
+export interface UseServerSentEventResult<T = string> {
 	/**
 	 * Current connection state.
 	 */
 	readyState: number | null;
 
+	/**
+	 * Last received event, default or named.
+	 */
+	lastMessage: MessageEvent<string> | null;
+
+	/**
+	 * Data of the last received event, parsed with `parse`.
+	 */
+	data: T | null;
+
+	/**
+	 * Id of the last received event (`id:` field).
+	 */
+	lastEventId: string | null;
+
+	/**
+	 * Current reconnection attempt, 0 while connected.
+	 */
+	reconnectAttempt: number;
+
 	/**
 	 * Manually closes the connection.
 	 */
 	close: () => void;
+
+	/**
+	 * Opens a new connection, resetting the reconnection attempts.
+	 */
+	reconnect: () => void;
+}
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 2;
+
+const defaultReconnectDelay = exponentialBackoff({
+	baseDelay: 1000,
+	maxDelay: 30000,
+});
+
+function parseData<T>(data: string, parse: ServerSentEventParser<T>): T {
+	if (parse === 'json') return JSON.parse(data) as T;
+	if (parse === 'text') return data as T;
+	return parse(data);
+}
+
+function withLastEventId(
+	url: string,
+	param: string | undefined,
+	lastEventId: string | null
+): string {
+	if (!param || !lastEventId) return url;
+	const resolved = new URL(url, globalThis.location?.href);
+	resolved.searchParams.set(param, lastEventId);
+	return resolved.toString();
 }
 
 /**
- * `useServerSideEvent` provides unopinionated access to Server-Sent Event (SSE) via the EventSource Web API.
+ * Creates an `EventSource`-like connection over `fetch`, parsing the `text/event-stream` format itself.
+ * Unlike `EventSource`, it can send any method, headers and body.
+ *
+ * Like `EventSource`, it reconnects after network errors (waiting `retry` milliseconds and sending `Last-Event-ID`),
+ * and fails with `readyState === CLOSED` on non-2xx responses or a wrong content type.
+ */
+export function createFetchEventSource(
+	url: string,
+	init: FetchEventSourceInit = {}
+): ServerSentEventSource {
+	const target = new EventTarget();
+	let readyState = CONNECTING;
+	let controller: AbortController | null = null;
+	let retryTimer: ReturnType<typeof setTimeout> | undefined;
+	let retry = 3000;
+	let lastEventId = init.lastEventId ?? '';
+	const origin = new URL(url, globalThis.location?.href).origin;
+
+	const source: ServerSentEventSource = {
+		get readyState() {
+			return readyState;
+		},
+		onopen: null,
+		onmessage: null,
+		onerror: null,
+		addEventListener(type, listener) {
+			target.addEventListener(type, listener as EventListener);
+		},
+		close() {
+			readyState = CLOSED;
+			clearTimeout(retryTimer);
+			controller?.abort();
+		},
+	};
+
+	const dispatch = (event: Event) => {
+		if (event.type === 'open') source.onopen?.(event);
+		else if (event.type === 'error') source.onerror?.(event);
+		else if (event.type === 'message') {
+			source.onmessage?.(event as MessageEvent<string>);
+		}
+		target.dispatchEvent(event);
+	};
+
+	const fail = () => {
+		readyState = CLOSED;
+		dispatch(new Event('error'));
+	};
+
+	const reestablish = () => {
+		if (readyState === CLOSED) return;
+		readyState = CONNECTING;
+		dispatch(new Event('error'));
+		retryTimer = setTimeout(connect, retry);
+	};
+
+	let data = '';
+	let eventType = '';
+
+	const processLine = (line: string) => {
+		if (line === '') {
+			if (data !== '') {
+				dispatch(
+					new MessageEvent(eventType || 'message', {
+						data: data.endsWith('\n') ? data.slice(0, -1) : data,
+						lastEventId,
+						origin,
+					})
+				);
+			}
+			data = '';
+			eventType = '';
+			return;
+		}
+		if (line.startsWith(':')) return;
+		const colon = line.indexOf(':');
+		const field = colon === -1 ? line : line.slice(0, colon);
+		let value = colon === -1 ? '' : line.slice(colon + 1);
+		if (value.startsWith(' ')) value = value.slice(1);
+
+		if (field === 'event') eventType = value;
+		else if (field === 'data') data += `${value}\n`;
+		else if (field === 'id' && !value.includes('\0')) lastEventId = value;
+		else if (field === 'retry' && /^\d+$/.test(value)) retry = Number(value);
+	};
+
+	const connect = async () => {
+		readyState = CONNECTING;
+		controller = new AbortController();
+		data = '';
+		eventType = '';
+
+		const headers = new Headers(init.headers);
+		headers.set('Accept', 'text/event-stream');
+		if (lastEventId) headers.set('Last-Event-ID', lastEventId);
+
+		try {
+			const response = await fetch(url, {
+				method: init.method ?? 'GET',
+				headers,
+				body: init.body ?? null,
+				cache: 'no-store',
+				credentials: init.withCredentials ? 'include' : 'same-origin',
+				signal: controller.signal,
+			});
+			const type = response.headers.get('Content-Type') ?? '';
+			if (
+				!response.ok ||
+				!response.body ||
+				!type.startsWith('text/event-stream')
+			) {
+				fail();
+				return;
+			}
+
+			readyState = OPEN;
+			dispatch(new Event('open'));
+
+			const reader = response.body
+				.pipeThrough(new TextDecoderStream())
+				.getReader();
+			let buffer = '';
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				buffer += value;
+				// A trailing CR may be the first half of a CRLF split across chunks.
+				const keepCR = buffer.endsWith('\r');
+				const lines = (keepCR ? buffer.slice(0, -1) : buffer).split(
+					/\r\n|\r|\n/
+				);
+				buffer = (lines.pop() ?? '') + (keepCR ? '\r' : '');
+				lines.forEach(processLine);
+			}
+			reestablish();
+		} catch {
+			if (controller.signal.aborted) return;
+			reestablish();
+		}
+	};
+
+	connect();
+	return source;
+}
+
+/**
+ * `useServerSentEvent` provides unopinionated access to Server-Sent Event (SSE) via the EventSource Web API.
  * It manages the EventSource lifecycle but delegates data handling to consumer callbacks.
  *
+ * Named events are registered from the `events` map. The last event, its parsed `data` and its id
+ * are kept in state. When the browser gives up retrying (`readyState === CLOSED`), the hook opens a new
+ * connection with backoff, passing the last event id through `lastEventIdParam` when set.
+ *
+ * With `transport: 'fetch'` the stream is read with `fetch`, so `method`, `headers` and `body` can be sent,
+ * keeping the same options, `readyState` values and reconnection behaviour.
+ *
+ * @template T Type of the parsed event data.
  * @param url SSE endpoint URL.
  * @param options Connection and lifecycle options.
  *
@@ -51,7 +354,7 @@ export interface UseServerSentEventResult {
  *
  * @example
  * ```tsx
- * useServerSideEvent('/api/events', {
+ * useServerSentEvent('/api/events', {
  *   onMessage: (e) => {
  *     const data = JSON.parse(e.data);
  *     console.log(data);
@@ -59,64 +362,208 @@ export interface UseServerSentEventResult {
  * });
  * ```
  *
+ * @example
+ * ```tsx
+ * // Named events, parsed data and resumable reconnections
+ * const { data, lastEventId, readyState } = useServerSentEvent<Notification>('/api/notifications', {
+ *   parse: 'json',
+ *   lastEventIdParam: 'lastEventId',
+ *   maxReconnectAttempts: 5,
+ *   events: {
+ *     'user-joined': e => toast(`${JSON.parse(e.data).name} joined`),
+ *     'build-finished': e => refetchBuilds(),
+ *   },
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Authenticated POST stream
+ * const { data } = useServerSentEvent<{ delta: string }>('/api/chat', {
+ *   transport: 'fetch',
+ *   method: 'POST',
+ *   headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ prompt }),
+ *   parse: 'json',
+ *   reconnect: false,
+ *   events: { done: () => setStreaming(false) },
+ * });
+ * ```
+ *
  * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
  *
  * @since 0.0.1
  * @version 0.0.1
  *
  */
-export function useServerSentEvent(
+export function useServerSentEvent<T = string>(
 	url: string,
-	options: UseServerSentEventOptions = {}
-): UseServerSentEventResult {
+	options: UseServerSentEventOptions<T> = {}
+): UseServerSentEventResult<T> {
 	const {
 		enabled = true,
 		withCredentials = false,
-		onOpen,
-		onMessage,
-		onError,
+		transport = 'eventsource',
+		method = 'GET',
+		events = {},
 	} = options;
+	const eventNamesKey = Object.keys(events).sort().join('\n');
+
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	const sourceRef = React.useRef<ServerSentEventSource | null>(null);
+	const reconnectTimerRef = React.useRef<
+		ReturnType<typeof setTimeout> | undefined
+	>(undefined);
+	const lastEventIdRef = React.useRef<string | null>(null);
 
-	const sourceRef = React.useRef<EventSource | null>(null);
 	const [readyState, setReadyState] = React.useState<number | null>(null);
+	const [lastMessage, setLastMessage] =
+		React.useState<MessageEvent<string> | null>(null);
+	const [lastEventId, setLastEventId] = React.useState<string | null>(null);
+	const [reconnectAttempt, setReconnectAttempt] = React.useState(0);
+	const [connectionId, setConnectionId] = React.useState(0);
 
 	const isSupported =
-		typeof window !== 'undefined' && typeof EventSource !== 'undefined';
+		typeof window !== 'undefined' &&
+		(transport === 'fetch'
+			? typeof fetch !== 'undefined'
+			: typeof EventSource !== 'undefined');
 
 	const close = React.useCallback(() => {
+		clearTimeout(reconnectTimerRef.current);
 		sourceRef.current?.close();
 		sourceRef.current = null;
 		setReadyState(null);
 	}, []);
 
+	const reconnect = React.useCallback(() => {
+		setReconnectAttempt(0);
+		setConnectionId(id => id + 1);
+	}, []);
+
 	React.useEffect(() => {
 		if (!isSupported || !enabled) return;
-		const source = new EventSource(url, { withCredentials });
-		sourceRef.current = source;
+		let disposed = false;
+		let attempt = 0;
+		const eventNames = eventNamesKey ? eventNamesKey.split('\n') : [];
 
-		source.onopen = event => {
+		const connect = (isReconnection: boolean) => {
+			const sourceUrl = isReconnection
+				? withLastEventId(
+						url,
+						optionsRef.current.lastEventIdParam,
+						lastEventIdRef.current
+					)
+				: url;
+			const { headers, body } = optionsRef.current;
+			const source: ServerSentEventSource =
+				transport === 'fetch'
+					? createFetchEventSource(sourceUrl, {
+							method,
+							withCredentials,
+							...(isReconnection &&
+								lastEventIdRef.current !== null && {
+									lastEventId: lastEventIdRef.current,
+								}),
+							...(headers !== undefined && { headers }),
+							...(body !== undefined && { body }),
+						})
+					: new EventSource(sourceUrl, { withCredentials });
+			sourceRef.current = source;
 			setReadyState(source.readyState);
-			onOpen?.(event);
-		};
 
-		source.onmessage = event => {
-			setReadyState(source.readyState);
-			onMessage?.(event);
-		};
+			const receive = (event: MessageEvent<string>) => {
+				setReadyState(source.readyState);
+				setLastMessage(event);
+				if (event.lastEventId) {
+					lastEventIdRef.current = event.lastEventId;
+					setLastEventId(event.lastEventId);
+				}
+			};
 
-		source.onerror = event => {
-			setReadyState(source.readyState);
-			onError?.(event);
+			source.onopen = event => {
+				attempt = 0;
+				setReconnectAttempt(0);
+				setReadyState(source.readyState);
+				optionsRef.current.onOpen?.(event);
+			};
+
+			source.onmessage = event => {
+				receive(event);
+				optionsRef.current.onMessage?.(event);
+			};
+
+			eventNames.forEach(name => {
+				source.addEventListener(name, event => {
+					receive(event);
+					optionsRef.current.events?.[name]?.(event);
+				});
+			});
+
+			source.onerror = event => {
+				setReadyState(source.readyState);
+				optionsRef.current.onError?.(event);
+				// While CONNECTING the browser retries on its own; CLOSED means it gave up.
+				if (source.readyState !== CLOSED || disposed) return;
+				if (sourceRef.current !== source) return;
+
+				const {
+					reconnect = true,
+					maxReconnectAttempts = 10,
+					reconnectDelay = defaultReconnectDelay,
+					onReconnectFailed,
+				} = optionsRef.current;
+				if (!reconnect) return;
+				if (attempt >= maxReconnectAttempts) {
+					onReconnectFailed?.();
+					return;
+				}
+				attempt += 1;
+				setReconnectAttempt(attempt);
+				reconnectTimerRef.current = setTimeout(
+					() => connect(true),
+					reconnectDelay(attempt)
+				);
+			};
 		};
 
+		connect(connectionId > 0);
+
 		return () => {
-			source.close();
+			disposed = true;
+			clearTimeout(reconnectTimerRef.current);
+			sourceRef.current?.close();
 			sourceRef.current = null;
 		};
-	}, [url, enabled, withCredentials, onOpen, onMessage, onError, isSupported]);
+	}, [
+		url,
+		enabled,
+		withCredentials,
+		transport,
+		method,
+		eventNamesKey,
+		isSupported,
+		connectionId,
+	]);
+
+	const data = React.useMemo((): T | null => {
+		if (!lastMessage) return null;
+		try {
+			return parseData(lastMessage.data, optionsRef.current.parse ?? 'text');
+		} catch {
+			return null;
+		}
+	}, [lastMessage]);
 
 	return {
 		readyState,
+		lastMessage,
+		data,
+		lastEventId,
+		reconnectAttempt,
 		close,
+		reconnect,
 	};
 }
@@ -0,0 +1,514 @@
+import * as React from 'react';
+import {
+	readAllCookies,
+	readCookie,
+	type UseCookieOptions,
+	writeCookie,
+} from './useCookies';
+
+type Listener = () => void;
+
+/**
+ * Storage adapter whose reads and writes are synchronous.
+ * Required by stores that are read through `useSyncExternalStore`.
+ */
+export interface SyncStorageAdapter {
+	readonly async?: false;
+	getItem(key: string): string | null;
+	setItem(key: string, value: string): void;
+	removeItem(key: string): void;
+	keys(): string[];
+	clear(): void;
+	suscribe(key: string, listener: Listener): () => void;
+}
+
+/**
+ * Storage adapter whose reads and writes return promises.
+ * Marked with `async: true`, so `useStorage` reads it after mount instead of during render.
+ */
+export interface AsyncStorageAdapter {
+	readonly async: true;
+	getItem(key: string): Promise<string | null>;
+	setItem(key: string, value: string): Promise<void>;
+	removeItem(key: string): Promise<void>;
+	keys(): Promise<string[]>;
+	clear(): Promise<void>;
+	suscribe(key: string, listener: Listener): () => void;
+}
+
+/**
+ * Common interface of every storage backend, synchronous or asynchronous.
+ * `suscribe` reports changes of a key (a `null` key in the backend, e.g. after `clear`,
+ * notifies every listener).
+ */
+export type StorageAdapter = SyncStorageAdapter | AsyncStorageAdapter;
+
+function createListenerRegistry() {
+	const listeners = new Map<string, Set<Listener>>();
+	return {
+		add(key: string, listener: Listener) {
+			const keyListeners = listeners.get(key) ?? new Set<Listener>();
+			keyListeners.add(listener);
+			listeners.set(key, keyListeners);
+			return () => {
+				keyListeners.delete(listener);
+				if (keyListeners.size === 0) listeners.delete(key);
+			};
+		},
+		emit(key: string | null) {
+			if (key === null) {
+				listeners.forEach(keyListeners => {
+					keyListeners.forEach(listener => listener());
+				});
+				return;
+			}
+			listeners.get(key)?.forEach(listener => listener());
+		},
+	};
+}
+
+/**
+ * Creates an adapter for a Web Storage area (localStorage, sessionStorage).
+ * Writes made in other tabs are reported through the `storage` event.
+ */
+export function createWebStorageAdapter(
+	getStorage: () => Storage
+): SyncStorageAdapter {
+	const registry = createListenerRegistry();
+
+	const storage = (): Storage | null => {
+		if (typeof window === 'undefined') return null;
+		try {
+			return getStorage();
+		} catch {
+			return null;
+		}
+	};
+
+	return {
+		getItem(key) {
+			try {
+				return storage()?.getItem(key) ?? null;
+			} catch {
+				return null;
+			}
+		},
+		setItem(key, value) {
+			storage()?.setItem(key, value);
+			registry.emit(key);
+		},
+		removeItem(key) {
+			storage()?.removeItem(key);
+			registry.emit(key);
+		},
+		keys() {
+			const area = storage();
+			if (!area) return [];
+			return Array.from({ length: area.length }, (_, index) =>
+				area.key(index)
+			).filter((key): key is string => key !== null);
+		},
+		clear() {
+			storage()?.clear();
+			registry.emit(null);
+		},
+		suscribe(key, listener) {
+			const unsuscribe = registry.add(key, listener);
+			if (typeof window === 'undefined') return unsuscribe;
+
+			const onStorage = (event: StorageEvent) => {
+				if (event.storageArea !== storage()) return;
+				if (event.key === key || event.key === null) listener();
+			};
+			window.addEventListener('storage', onStorage);
+			return () => {
+				unsuscribe();
+				window.removeEventListener('storage', onStorage);
+			};
+		},
+	};
+}
+
+/**
+ * Adapter backed by `window.localStorage`.
+ */
+export const localStorageAdapter = createWebStorageAdapter(
+	() => window.localStorage
+);
+
+/**
+ * Adapter backed by `window.sessionStorage`.
+ */
+export const sessionStorageAdapter = createWebStorageAdapter(
+	() => window.sessionStorage
+);
+
+/**
+ * Creates an in-memory adapter. Useful in tests and during server rendering.
+ */
+export function createMemoryStorageAdapter(
+	initial: Record<string, string> = {}
+): SyncStorageAdapter {
+	const registry = createListenerRegistry();
+	const values = new Map<string, string>(Object.entries(initial));
+
+	return {
+		getItem(key) {
+			return values.get(key) ?? null;
+		},
+		setItem(key, value) {
+			values.set(key, value);
+			registry.emit(key);
+		},
+		removeItem(key) {
+			values.delete(key);
+			registry.emit(key);
+		},
+		keys() {
+			return Array.from(values.keys());
+		},
+		clear() {
+			values.clear();
+			registry.emit(null);
+		},
+		suscribe(key, listener) {
+			return registry.add(key, listener);
+		},
+	};
+}
+
+/**
+ * Creates an adapter backed by `document.cookie`.
+ * Only changes made through the adapter are reported, since cookies have no change event.
+ */
+export function createCookieStorageAdapter(
+	options: UseCookieOptions = { path: '/' }
+): SyncStorageAdapter {
+	const registry = createListenerRegistry();
+
+	return {
+		getItem(key) {
+			return readCookie(key);
+		},
+		setItem(key, value) {
+			writeCookie(key, value, options);
+			registry.emit(key);
+		},
+		removeItem(key) {
+			writeCookie(key, '', { ...options, maxAge: 0 });
+			registry.emit(key);
+		},
+		keys() {
+			return Object.keys(readAllCookies());
+		},
+		clear() {
+			Object.keys(readAllCookies()).forEach(key => {
+				writeCookie(key, '', { ...options, maxAge: 0 });
+			});
+			registry.emit(null);
+		},
+		suscribe(key, listener) {
+			return registry.add(key, listener);
+		},
+	};
+}
+
+export interface IndexedDBStorageAdapterOptions {
+	/**
+	 * Database name.
+	 * @default 'vibehooks-storage'
+	 */
+	name?: string;
+
+	/**
+	 * Object store holding the values.
+	 * @default 'keyval'
+	 */
+	storeName?: string;
+}
+
+/**
+ * Creates an asynchronous adapter backed by an IndexedDB key-value object store.
+ */
+export function createIndexedDBStorageAdapter(
+	options: IndexedDBStorageAdapterOptions = {}
+): AsyncStorageAdapter {
+	const { name = 'vibehooks-storage', storeName = 'keyval' } = options;
+	const registry = createListenerRegistry();
+	let dbPromise: Promise<IDBDatabase> | null = null;
+
+	const open = () => {
+		if (typeof indexedDB === 'undefined') {
+			return Promise.reject(new Error('IndexedDB not supported.'));
+		}
+		dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(name, 1);
+			request.onupgradeneeded = () => {
+				request.result.createObjectStore(storeName);
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => {
+				dbPromise = null;
+				reject(request.error);
+			};
+		});
+		return dbPromise;
+	};
+
+	const run = async <T>(
+		mode: IDBTransactionMode,
+		fn: (store: IDBObjectStore) => IDBRequest<T>
+	): Promise<T> => {
+		const db = await open();
+		return new Promise<T>((resolve, reject) => {
+			const tx = db.transaction(storeName, mode);
+			const request = fn(tx.objectStore(storeName));
+			tx.oncomplete = () => resolve(request.result);
+			tx.onerror = () => reject(tx.error);
+			tx.onabort = () => reject(tx.error);
+		});
+	};
+
+	return {
+		async: true,
+		async getItem(key) {
+			const value = await run('readonly', store => store.get(key));
+			return typeof value === 'string' ? value : null;
+		},
+		async setItem(key, value) {
+			await run('readwrite', store => store.put(value, key));
+			registry.emit(key);
+		},
+		async removeItem(key) {
+			await run('readwrite', store => store.delete(key));
+			registry.emit(key);
+		},
+		async keys() {
+			const keys = await run('readonly', store => store.getAllKeys());
+			return keys.map(String);
+		},
+		async clear() {
+			await run('readwrite', store => store.clear());
+			registry.emit(null);
+		},
+		suscribe(key, listener) {
+			return registry.add(key, listener);
+		},
+	};
+}
+
+function readSync(adapter: SyncStorageAdapter, key: string): string | null {
+	try {
+		return adapter.getItem(key);
+	} catch {
+		// Unreadable values fall back like missing ones.
+		return null;
+	}
+}
+
+/**
+ * Moves a stored value from one adapter to another, removing it from the source.
+ */
+export async function moveStorageValue(
+	key: string,
+	from: StorageAdapter,
+	to: StorageAdapter
+): Promise<void> {
+	const value = await from.getItem(key);
+	if (value === null) return;
+	await to.setItem(key, value);
+	await from.removeItem(key);
+}
+
+export interface UseStorageOptions<T> {
+	/**
+	 * Backend where the value is stored.
+	 * @default localStorageAdapter
+	 */
+	adapter?: StorageAdapter;
+
+	/**
+	 * Synchronous adapter read for the server snapshot (server render and hydration).
+	 * By default the server snapshot is empty, so the server render uses the fallback.
+	 */
+	serverAdapter?: SyncStorageAdapter;
+
+	/**
+	 * Value returned when the key does not exist or cannot be parsed.
+	 */
+	fallback?: T;
+
+	/**
+	 * Converts a value into the stored string.
+	 * @default JSON.stringify
+	 */
+	serialize?: (value: T) => string;
+
+	/**
+	 * Converts the stored string back into a value.
+	 * @default JSON.parse
+	 */
+	deserialize?: (raw: string) => T;
+}
+
+export interface UseStorageReturn<T> {
+	/**
+	 * Current value, or the fallback.
+	 */
+	value: T | null;
+
+	/**
+	 * Whether the value of the current key was read from the adapter.
+	 */
+	isReady: boolean;
+
+	/**
+	 * Stores a value. Passing `null` removes it.
+	 */
+	set: (value: T | null | ((prev: T | null) => T | null)) => Promise<void>;
+
+	/**
+	 * Removes the value.
+	 */
+	remove: () => Promise<void>;
+}
+
+/**
+ * `useStorage` is a React hook that reads and writes a value through a pluggable `StorageAdapter`
+ * (localStorage, sessionStorage, cookies, memory or IndexedDB) and re-renders when it changes.
+ *
+ * Synchronous adapters (localStorage, sessionStorage, cookies, memory) are read during render through
+ * `useSyncExternalStore`. Adapters marked with `async: true` (IndexedDB) are read after mount, so their
+ * first render uses the fallback and `isReady` is `false` until the value of the current key arrives.
+ * The server render uses `serverAdapter` when given, and the fallback otherwise.
+ *
+ * @template T Type of the stored value.
+ * @param key Key of the stored value.
+ * @param options Adapter and serialization options.
+ *
+ * @returns The current value and helpers to update it.
+ *
+ * @example
+ * ```tsx
+ * const draft = useStorage<string>('draft', {
+ *   adapter: sessionStorageAdapter,
+ *   fallback: '',
+ * });
+ *
+ * <textarea value={draft.value ?? ''} onChange={e => draft.set(e.target.value)} />
+ *
+ * // In tests or SSR
+ * const adapter = createMemoryStorageAdapter({ draft: '"Hello"' });
+ * const draft = useStorage<string>('draft', { adapter, serverAdapter: adapter });
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function useStorage<T>(
+	key: string,
+	options: UseStorageOptions<T> = {}
+): UseStorageReturn<T> {
+	const { adapter = localStorageAdapter, serverAdapter } = options;
+	const fallback = options.fallback ?? null;
+
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	// Value read from an asynchronous adapter, tagged with what it was read from.
+	const [asyncState, setAsyncState] = React.useState<{
+		adapter: StorageAdapter;
+		key: string;
+		raw: string | null;
+	} | null>(null);
+
+	const suscribe = React.useCallback(
+		(listener: Listener) =>
+			adapter.async ? () => {} : adapter.suscribe(key, listener),
+		[adapter, key]
+	);
+	const getSnapshot = React.useCallback(
+		() => (adapter.async ? null : readSync(adapter, key)),
+		[adapter, key]
+	);
+	const getServerSnapshot = React.useCallback(
+		() => (serverAdapter ? readSync(serverAdapter, key) : null),
+		[serverAdapter, key]
+	);
+
+	const syncRaw = React.useSyncExternalStore(
+		suscribe,
+		getSnapshot,
+		getServerSnapshot
+	);
+
+	// A value read for another key or adapter is not ready for this one.
+	const asyncRead =
+		asyncState?.adapter === adapter && asyncState.key === key
+			? asyncState
+			: null;
+	const isAsync = adapter.async === true;
+	const raw = isAsync ? (asyncRead?.raw ?? null) : syncRaw;
+
+	React.useEffect(() => {
+		if (!adapter.async) return;
+		let active = true;
+		const read = () => {
+			adapter
+				.getItem(key)
+				.catch(() => null)
+				.then(raw => {
+					if (active) setAsyncState({ adapter, key, raw });
+				});
+		};
+		read();
+		const unsuscribe = adapter.suscribe(key, read);
+		return () => {
+			active = false;
+			unsuscribe();
+		};
+	}, [adapter, key]);
+
+	const value = React.useMemo((): T | null => {
+		if (raw === null) return fallback;
+		const { deserialize = JSON.parse } = optionsRef.current;
+		try {
+			return deserialize(raw) as T;
+		} catch {
+			return fallback;
+		}
+	}, [raw, fallback]);
+
+	const valueRef = React.useRef(value);
+	valueRef.current = value;
+
+	const remove = React.useCallback(async () => {
+		await adapter.removeItem(key);
+	}, [adapter, key]);
+
+	const set = React.useCallback(
+		async (next: T | null | ((prev: T | null) => T | null)) => {
+			const resolved =
+				typeof next === 'function'
+					? (next as (prev: T | null) => T | null)(valueRef.current)
+					: next;
+			if (resolved === null) {
+				await remove();
+				return;
+			}
+			const { serialize = JSON.stringify } = optionsRef.current;
+			await adapter.setItem(key, serialize(resolved));
+		},
+		[adapter, key, remove]
+	);
+
+	return {
+		value,
+		isReady: isAsync ? asyncRead !== null : true,
+		set,
+		remove,
+	};
+}
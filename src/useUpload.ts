@@ -0,0 +1,410 @@
+import * as React from 'react';
+import { type FetchProgress, useFetchClient } from './useAsyncState';
+
+export type UploadStatus =
+	| 'pending'
+	| 'uploading'
+	| 'success'
+	| 'error'
+	| 'cancelled';
+
+export interface UploadItem<TResponse = unknown> {
+	/**
+	 * Unique id of the upload, used by `cancel`.
+	 */
+	id: string;
+
+	/**
+	 * File being uploaded.
+	 */
+	file: File;
+
+	/**
+	 * Current status of the upload.
+	 */
+	status: UploadStatus;
+
+	/**
+	 * Bytes sent so far.
+	 */
+	progress: FetchProgress;
+
+	/**
+	 * Parsed server response, once the upload succeeded.
+	 */
+	response: TResponse | null;
+
+	/**
+	 * Error of a failed upload.
+	 */
+	error: Error | null;
+}
+
+export interface UseUploadOptions<TResponse> {
+	/**
+	 * Upload endpoint. Relative URLs are resolved against the fetch client `baseUrl`.
+	 */
+	url: string | ((file: File) => string);
+
+	/**
+	 * HTTP method.
+	 * @default 'POST'
+	 */
+	method?: string;
+
+	/**
+	 * Name of the multipart field that holds the file.
+	 * Set it to `null` to send the raw file as the request body.
+	 * @default 'file'
+	 */
+	fieldName?: string | null;
+
+	/**
+	 * Extra multipart fields sent with every file.
+	 */
+	fields?: Record<string, string> | ((file: File) => Record<string, string>);
+
+	/**
+	 * Request headers, merged over the fetch client default headers.
+	 * The client request interceptors run too; response interceptors do not.
+	 * `Content-Type` is not sent with form data, so the browser can add the multipart boundary.
+	 */
+	headers?: Record<string, string>;
+
+	/**
+	 * Whether credentials (cookies) should be sent cross-origin.
+	 */
+	withCredentials?: boolean;
+
+	/**
+	 * Maximum number of files uploaded at the same time.
+	 * @default 3
+	 */
+	concurrency?: number;
+
+	/**
+	 * Called when a single file finishes uploading.
+	 */
+	onFileSuccess?: (item: UploadItem<TResponse>) => void;
+
+	/**
+	 * Called when a single file fails to upload.
+	 */
+	onFileError?: (item: UploadItem<TResponse>) => void;
+
+	/**
+	 * Called when every file of an `upload` call settled.
+	 */
+	onComplete?: (items: UploadItem<TResponse>[]) => void;
+}
+
+export interface UseUploadReturn<TResponse> {
+	/**
+	 * Every upload started since the last reset.
+	 */
+	uploads: UploadItem<TResponse>[];
+
+	/**
+	 * Aggregated progress of the uploads.
+	 */
+	progress: FetchProgress;
+
+	/**
+	 * Whether at least one file is uploading or waiting for a slot.
+	 */
+	isUploading: boolean;
+
+	/**
+	 * Uploads the given files, respecting the concurrency limit.
+	 */
+	upload: (files: File[] | FileList) => Promise<UploadItem<TResponse>[]>;
+
+	/**
+	 * Cancels a single upload.
+	 */
+	cancel: (id: string) => void;
+
+	/**
+	 * Cancels every pending or running upload.
+	 */
+	cancelAll: () => void;
+
+	/**
+	 * Cancels every upload and clears the list.
+	 */
+	reset: () => void;
+}
+
+function getProgress(loaded: number, total: number | null): FetchProgress {
+	return {
+		loaded,
+		total,
+		percent: total ? Math.min(100, (loaded / total) * 100) : null,
+	};
+}
+
+function parseXhrResponse(xhr: XMLHttpRequest): unknown {
+	const contentType = xhr.getResponseHeader('Content-Type');
+	if (contentType?.includes('application/json')) {
+		try {
+			return JSON.parse(xhr.responseText);
+		} catch {
+			return xhr.responseText;
+		}
+	}
+	return xhr.responseText;
+}
+
+/**
+ * `useUpload` uploads files (typically `useFile().files`) with real upload progress.
+ * It uses `XMLHttpRequest`, since `fetch` does not report upload progress.
+ *
+ * Each file gets its own status, progress and cancel handle, and at most `concurrency` files are sent at once.
+ *
+ * @template TResponse Type of the parsed server response.
+ *
+ * @param options Upload endpoint and behaviour.
+ *
+ * @returns Upload list, aggregated progress and helpers.
+ *
+ * @example
+ * ```tsx
+ * function Uploader() {
+ *   const file = useFile({ multiple: true });
+ *   const { uploads, progress, isUploading, upload, cancel } = useUpload({
+ *     url: '/api/files',
+ *     concurrency: 2,
+ *   });
+ *
+ *   return (
+ *     <>
+ *       <input {...file.inputProps} />
+ *       <button onClick={() => upload(file.files)} disabled={isUploading}>
+ *         Upload
+ *       </button>
+ *       <progress value={progress.percent ?? 0} max={100} />
+ *       {uploads.map(item => (
+ *         <p key={item.id}>
+ *           {item.file.name}: {item.status} {Math.round(item.progress.percent ?? 0)}%
+ *           {item.status === 'uploading' && (
+ *             <button onClick={() => cancel(item.id)}>Cancel</button>
+ *           )}
+ *         </p>
+ *       ))}
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function useUpload<TResponse = unknown>(
+	options: UseUploadOptions<TResponse>
+): UseUploadReturn<TResponse> {
+	const client = useFetchClient();
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	const [uploads, setUploads] = React.useState<UploadItem<TResponse>[]>([]);
+	const uploadsRef = React.useRef(uploads);
+	uploadsRef.current = uploads;
+	const requestsRef = React.useRef(new Map<string, XMLHttpRequest>());
+	const cancelledRef = React.useRef(new Set<string>());
+	const counterRef = React.useRef(0);
+
+	const patch = React.useCallback(
+		(id: string, next: Partial<UploadItem<TResponse>>) => {
+			setUploads(prev =>
+				prev.map(item => (item.id === id ? { ...item, ...next } : item))
+			);
+		},
+		[]
+	);
+
+	const send = React.useCallback(
+		(item: UploadItem<TResponse>): Promise<UploadItem<TResponse>> => {
+			const {
+				url,
+				method = 'POST',
+				fieldName = 'file',
+				fields,
+				headers,
+				withCredentials = false,
+			} = optionsRef.current;
+
+			return new Promise(resolve => {
+				const settle = (next: Partial<UploadItem<TResponse>>) => {
+					requestsRef.current.delete(item.id);
+					patch(item.id, next);
+					resolve({ ...item, ...next });
+				};
+
+				if (cancelledRef.current.has(item.id)) {
+					settle({ status: 'cancelled' });
+					return;
+				}
+
+				const target = typeof url === 'function' ? url(item.file) : url;
+				const open = (request: Request) => {
+					if (cancelledRef.current.has(item.id)) {
+						settle({ status: 'cancelled' });
+						return;
+					}
+
+					let body: XMLHttpRequestBodyInit = item.file;
+					if (fieldName !== null) {
+						const formData = new FormData();
+						const extra =
+							typeof fields === 'function' ? fields(item.file) : fields;
+						Object.entries(extra ?? {}).forEach(([key, value]) => {
+							formData.append(key, value);
+						});
+						formData.append(fieldName, item.file, item.file.name);
+						body = formData;
+					}
+
+					const xhr = new XMLHttpRequest();
+					requestsRef.current.set(item.id, xhr);
+					xhr.open(request.method, request.url);
+					xhr.withCredentials = withCredentials;
+					request.headers.forEach((value, key) => {
+						// The browser sets the multipart Content-Type with its boundary.
+						if (body instanceof FormData && key === 'content-type') return;
+						xhr.setRequestHeader(key, value);
+					});
+
+					xhr.upload.onprogress = event => {
+						patch(item.id, {
+							progress: getProgress(
+								event.loaded,
+								event.lengthComputable ? event.total : item.file.size
+							),
+						});
+					};
+					xhr.onload = () => {
+						if (xhr.status >= 200 && xhr.status < 300) {
+							settle({
+								status: 'success',
+								response: parseXhrResponse(xhr) as TResponse,
+								progress: getProgress(item.file.size, item.file.size),
+							});
+							return;
+						}
+						settle({
+							status: 'error',
+							error: new Error(xhr.responseText || `HTTP Error ${xhr.status}`),
+						});
+					};
+					xhr.onerror = () => {
+						settle({ status: 'error', error: new Error('Network error') });
+					};
+					xhr.onabort = () => {
+						settle({ status: 'cancelled' });
+					};
+
+					patch(item.id, { status: 'uploading' });
+					xhr.send(body);
+				};
+
+				// The body is sent by XMLHttpRequest, so only the URL, headers and request interceptors apply.
+				client
+					.prepare(target, { method, ...(headers && { headers }) })
+					.then(open)
+					.catch((err: unknown) => {
+						settle({
+							status: 'error',
+							error: err instanceof Error ? err : new Error(String(err)),
+						});
+					});
+			});
+		},
+		[client, patch]
+	);
+
+	const upload = React.useCallback(
+		async (input: File[] | FileList): Promise<UploadItem<TResponse>[]> => {
+			const items = Array.from(input).map<UploadItem<TResponse>>(file => ({
+				id: `${file.name}-${file.size}-${++counterRef.current}`,
+				file,
+				status: 'pending',
+				progress: getProgress(0, file.size),
+				response: null,
+				error: null,
+			}));
+			setUploads(prev => [...prev, ...items]);
+
+			const concurrency = Math.max(1, optionsRef.current.concurrency ?? 3);
+			const results: UploadItem<TResponse>[] = [];
+			let cursor = 0;
+
+			const worker = async () => {
+				while (cursor < items.length) {
+					const index = cursor++;
+					const result = await send(items[index] as UploadItem<TResponse>);
+					results[index] = result;
+					if (result.status === 'success') {
+						optionsRef.current.onFileSuccess?.(result);
+					} else if (result.status === 'error') {
+						optionsRef.current.onFileError?.(result);
+					}
+				}
+			};
+
+			await Promise.all(
+				Array.from({ length: Math.min(concurrency, items.length) }, worker)
+			);
+			optionsRef.current.onComplete?.(results);
+			return results;
+		},
+		[send]
+	);
+
+	const cancel = React.useCallback((id: string) => {
+		cancelledRef.current.add(id);
+		requestsRef.current.get(id)?.abort();
+	}, []);
+
+	const cancelAll = React.useCallback(() => {
+		uploadsRef.current.forEach(item => {
+			if (item.status === 'pending' || item.status === 'uploading') {
+				cancelledRef.current.add(item.id);
+			}
+		});
+		requestsRef.current.forEach(xhr => xhr.abort());
+	}, []);
+
+	const reset = React.useCallback(() => {
+		cancelAll();
+		setUploads([]);
+	}, [cancelAll]);
+
+	React.useEffect(() => {
+		const requests = requestsRef.current;
+		return () => {
+			requests.forEach(xhr => xhr.abort());
+		};
+	}, []);
+
+	const progress = React.useMemo(() => {
+		const active = uploads.filter(item => item.status !== 'cancelled');
+		const loaded = active.reduce((sum, item) => sum + item.progress.loaded, 0);
+		const total = active.reduce((sum, item) => sum + item.file.size, 0);
+		return getProgress(loaded, total);
+	}, [uploads]);
+
+	return {
+		uploads,
+		progress,
+		isUploading: uploads.some(
+			item => item.status === 'pending' || item.status === 'uploading'
+		),
+		upload,
+		cancel,
+		cancelAll,
+		reset,
+	};
+}
@@ -1,13 +1,557 @@
 import * as React from 'react';
+import { exponentialBackoff } from './useAsyncState';
+
+export type WebsocketData = string | ArrayBufferLike | Blob | ArrayBufferView;
+
+export interface WebsocketHeartbeatOptions {
+	/**
+	 * Message sent as ping.
+	 * @default 'ping'
+	 */
+	message?: WebsocketData | (() => WebsocketData);
+
+	/**
+	 * Reply that acknowledges a ping. Pongs are not exposed as messages.
+	 * @default 'pong'
+	 */
+	pong?: string | ((event: MessageEvent) => boolean);
+
+	/**
+	 * Time between pings in milliseconds.
+	 * @default 30000
+	 */
+	interval?: number;
+
+	/**
+	 * Time to wait for any message after a ping before the connection is considered dead.
+	 * @default 10000
+	 */
+	timeout?: number;
+}
+
+/**
+ * Message types of a discriminated union, taken from its `type` field.
+ */
+export type WebsocketMessageType<T> = T extends { type: infer K }
+	? K extends string
+		? K
+		: never
+	: never;
+
+export interface UseWebsocketOptions<TIncoming = unknown> {
+	/**
+	 * Whether the connection should be established.
+	 * Usefull to lazily connect.
+	 */
+	enabled?: boolean;
+
+	/**
+	 * Whether hooks using the same URL and protocols share one connection.
+	 * Connection settings (reconnection, heartbeat, queue, binary type) come from the first subscriber.
+	 * @default true
+	 */
+	shared?: boolean;
+
+	/**
+	 * Parses incoming messages for `lastJsonMessage` and `subscribe`.
+	 * Text messages are parsed as JSON by default; binary data is passed through.
+	 */
+	parse?: (event: MessageEvent) => TIncoming;
+
+	/**
+	 * Sub-protocols offered to the server.
+	 */
+	protocols?: string | string[];
+
+	/**
+	 * How binary messages are exposed.
+	 * @default 'blob'
+	 */
+	binaryType?: BinaryType;
+
+	/**
+	 * Whether to reconnect when the connection closes unexpectedly.
+	 * @default true
+	 */
+	reconnect?: boolean;
+
+	/**
+	 * Maximum number of consecutive reconnection attempts.
+	 * @default 10
+	 */
+	maxReconnectAttempts?: number;
+
+	/**
+	 * Delay before a reconnection attempt (1-based), in milliseconds.
+	 * @default exponentialBackoff({ baseDelay: 1000, maxDelay: 30000 })
+	 */
+	reconnectDelay?: (attempt: number) => number;
+
+	/**
+	 * Decides whether a close event should trigger a reconnection.
+	 * By default every close except a normal closure (1000) reconnects.
+	 */
+	shouldReconnect?: (event: CloseEvent) => boolean;
+
+	/**
+	 * Sends pings periodically and reconnects when no message arrives in time.
+	 * Disabled by default.
+	 */
+	heartbeat?: boolean | WebsocketHeartbeatOptions;
+
+	/**
+	 * Whether messages sent while disconnected are queued and sent once the connection opens.
+	 * @default true
+	 */
+	queueMessages?: boolean;
+
+	/**
+	 * Maximum number of queued messages. The oldest ones are dropped first.
+	 * @default 100
+	 */
+	maxQueueSize?: number;
+
+	/**
+	 * Called when the connection is opened.
+	 */
+	onOpen?: (event: Event) => void;
+
+	/**
+	 * Called on every incoming message, except heartbeat pongs.
+	 */
+	onMessage?: (event: MessageEvent) => void;
+
+	/**
+	 * Called when the connection closes.
+	 */
+	onClose?: (event: CloseEvent) => void;
+
+	/**
+	 * Called when an error occurs.
+	 */
+	onError?: (event: Event) => void;
+
+	/**
+	 * Called when `maxReconnectAttempts` is reached.
+	 */
+	onReconnectFailed?: () => void;
+
+	/**
+	 * Called with a queued message dropped because the queue exceeded `maxQueueSize`.
+	 * Hooks sharing a connection are all told about every dropped message.
+	 */
+	onQueueOverflow?: (data: WebsocketData) => void;
+}
+
+export interface UseWebsocketResult<
+	TIncoming = unknown,
+	TOutgoing = TIncoming,
+> {
+	/**
+	 * Current connection state, or `null` before the first connection.
+	 */
+	readyState: number | null;
+
+	/**
+	 * Last received message.
+	 */
+	lastMessage: MessageEvent | null;
+
+	/**
+	 * Last received message, parsed.
+	 */
+	lastJsonMessage: TIncoming | null;
+
+	/**
+	 * Current reconnection attempt, 0 while connected.
+	 */
+	reconnectAttempt: number;
+
+	/**
+	 * Sends a message. Returns `false` when the message was queued or dropped.
+	 */
+	send: (data: WebsocketData) => boolean;
+
+	/**
+	 * Sends a value serialized as JSON.
+	 */
+	sendJson: (message: TOutgoing) => boolean;
+
+	/**
+	 * Calls `handler` for incoming messages of the given `type`, or matching the filter.
+	 * Returns a function that removes the subscription.
+	 */
+	subscribe: {
+		<Type extends WebsocketMessageType<TIncoming>>(
+			type: Type,
+			handler: (
+				message: Extract<TIncoming, { type: Type }>,
+				event: MessageEvent
+			) => void
+		): () => void;
+		(
+			filter: (message: TIncoming) => boolean,
+			handler: (message: TIncoming, event: MessageEvent) => void
+		): () => void;
+	};
+
+	/**
+	 * Closes the connection without reconnecting. Shared connections close for every subscriber,
+	 * including hooks mounted later, until one of them calls `reconnect`.
+	 */
+	close: (code?: number, reason?: string) => void;
+
+	/**
+	 * Opens a new connection, resetting the reconnection attempts.
+	 */
+	reconnect: () => void;
+}
+
+const defaultReconnectDelay = exponentialBackoff({
+	baseDelay: 1000,
+	maxDelay: 30000,
+});
+
+const HEARTBEAT_TIMEOUT_CODE = 4000;
+
+function isPong(
+	event: MessageEvent,
+	pong: WebsocketHeartbeatOptions['pong'] = 'pong'
+): boolean {
+	return typeof pong === 'function' ? pong(event) : event.data === pong;
+}
+
+function defaultParse(event: MessageEvent): unknown {
+	if (typeof event.data !== 'string') return event.data;
+	try {
+		return JSON.parse(event.data);
+	} catch {
+		return event.data;
+	}
+}
+
+interface WebsocketSnapshot {
+	readyState: number | null;
+	lastMessage: MessageEvent | null;
+	reconnectAttempt: number;
+}
+
+interface WebsocketSubscriber {
+	getOptions: () => UseWebsocketOptions<unknown>;
+	onMessage: (event: MessageEvent) => void;
+}
+
+interface WebsocketConnection {
+	suscribe: (listener: () => void) => () => void;
+	getSnapshot: () => WebsocketSnapshot;
+	send: (data: WebsocketData) => boolean;
+	close: (code?: number, reason?: string) => void;
+	reconnect: () => void;
+}
+
+const idleSnapshot: WebsocketSnapshot = {
+	readyState: null,
+	lastMessage: null,
+	reconnectAttempt: 0,
+};
+
+const connections = new Map<
+	string,
+	WebsocketConnection & {
+		attach: (subscriber: WebsocketSubscriber) => () => void;
+	}
+>();
+
+function createConnection(
+	key: string,
+	url: string,
+	protocols: string | string[] | undefined
+) {
+	const listeners = new Set<() => void>();
+	const subscribers = new Set<WebsocketSubscriber>();
+	let snapshot: WebsocketSnapshot = idleSnapshot;
+	let socket: WebSocket | null = null;
+	let queue: WebsocketData[] = [];
+	let attempt = 0;
+	let isManuallyClosed = false;
+	let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+	let disposeTimer: ReturnType<typeof setTimeout> | undefined;
+	let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+	let pongTimer: ReturnType<typeof setTimeout> | undefined;
+
+	// Connection settings come from the oldest subscriber still attached.
+	const getOptions = (): UseWebsocketOptions<unknown> =>
+		subscribers.values().next().value?.getOptions() ?? {};
+
+	const setSnapshot = (patch: Partial<WebsocketSnapshot>) => {
+		snapshot = { ...snapshot, ...patch };
+		listeners.forEach(listener => listener());
+	};
+
+	const stopHeartbeat = () => {
+		clearInterval(heartbeatTimer);
+		clearTimeout(pongTimer);
+		heartbeatTimer = undefined;
+		pongTimer = undefined;
+	};
+
+	const detach = (target: WebSocket) => {
+		target.onopen = null;
+		target.onmessage = null;
+		target.onerror = null;
+		target.onclose = null;
+	};
+
+	const handleClose = (target: WebSocket, event: CloseEvent) => {
+		stopHeartbeat();
+		detach(target);
+		if (socket === target) socket = null;
+		setSnapshot({ readyState: WebSocket.CLOSED });
+		subscribers.forEach(subscriber => subscriber.getOptions().onClose?.(event));
+		if (isManuallyClosed || subscribers.size === 0) return;
+
+		const {
+			reconnect = true,
+			maxReconnectAttempts = 10,
+			reconnectDelay = defaultReconnectDelay,
+			shouldReconnect = (closeEvent: CloseEvent) => closeEvent.code !== 1000,
+		} = getOptions();
+		if (!reconnect || !shouldReconnect(event)) return;
+		if (attempt >= maxReconnectAttempts) {
+			subscribers.forEach(subscriber =>
+				subscriber.getOptions().onReconnectFailed?.()
+			);
+			return;
+		}
+		attempt += 1;
+		setSnapshot({ reconnectAttempt: attempt });
+		reconnectTimer = setTimeout(() => {
+			reconnectTimer = undefined;
+			connect();
+		}, reconnectDelay(attempt));
+	};
+
+	const startHeartbeat = (target: WebSocket) => {
+		const { heartbeat } = getOptions();
+		if (!heartbeat) return;
+		const {
+			message = 'ping',
+			interval = 30000,
+			timeout = 10000,
+		} = heartbeat === true ? {} : heartbeat;
+
+		heartbeatTimer = setInterval(() => {
+			if (target.readyState !== WebSocket.OPEN) return;
+			target.send(typeof message === 'function' ? message() : message);
+			if (pongTimer !== undefined) return;
+			pongTimer = setTimeout(() => {
+				// A dead connection may never finish the closing handshake, so close it right away.
+				target.close(HEARTBEAT_TIMEOUT_CODE, 'Heartbeat timeout');
+				handleClose(
+					target,
+					new CloseEvent('close', {
+						code: HEARTBEAT_TIMEOUT_CODE,
+						reason: 'Heartbeat timeout',
+					})
+				);
+			}, timeout);
+		}, interval);
+	};
+
+	const connect = () => {
+		const { binaryType = 'blob' } = getOptions();
+		const target = new WebSocket(url, protocols);
+		target.binaryType = binaryType;
+		socket = target;
+		setSnapshot({ readyState: target.readyState });
+
+		target.onopen = event => {
+			attempt = 0;
+			setSnapshot({ readyState: target.readyState, reconnectAttempt: 0 });
+			queue.splice(0).forEach(data => target.send(data));
+			startHeartbeat(target);
+			subscribers.forEach(subscriber =>
+				subscriber.getOptions().onOpen?.(event)
+			);
+		};
+
+		target.onmessage = event => {
+			clearTimeout(pongTimer);
+			pongTimer = undefined;
+			const { heartbeat } = getOptions();
+			if (
+				heartbeat &&
+				isPong(event, heartbeat === true ? undefined : heartbeat.pong)
+			) {
+				return;
+			}
+			setSnapshot({ lastMessage: event });
+			subscribers.forEach(subscriber => subscriber.onMessage(event));
+		};
+
+		target.onerror = event => {
+			setSnapshot({ readyState: target.readyState });
+			subscribers.forEach(subscriber =>
+				subscriber.getOptions().onError?.(event)
+			);
+		};
+
+		target.onclose = event => handleClose(target, event);
+	};
+
+	const teardown = () => {
+		clearTimeout(reconnectTimer);
+		reconnectTimer = undefined;
+		stopHeartbeat();
+		if (socket) {
+			detach(socket);
+			socket.close(1000);
+			socket = null;
+		}
+	};
+
+	return {
+		suscribe(listener: () => void) {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		},
+		getSnapshot() {
+			return snapshot;
+		},
+		send(data: WebsocketData) {
+			if (socket?.readyState === WebSocket.OPEN) {
+				socket.send(data);
+				return true;
+			}
+			const { queueMessages = true, maxQueueSize = 100 } = getOptions();
+			if (queueMessages) {
+				queue.push(data);
+				const dropped = queue.length > maxQueueSize ? queue.shift() : undefined;
+				if (dropped !== undefined) {
+					subscribers.forEach(subscriber =>
+						subscriber.getOptions().onQueueOverflow?.(dropped)
+					);
+				}
+			}
+			return false;
+		},
+		close(code = 1000, reason?: string) {
+			isManuallyClosed = true;
+			clearTimeout(reconnectTimer);
+			reconnectTimer = undefined;
+			socket?.close(code, reason);
+		},
+		reconnect() {
+			teardown();
+			isManuallyClosed = false;
+			attempt = 0;
+			setSnapshot({ reconnectAttempt: 0 });
+			connect();
+		},
+		attach(subscriber: WebsocketSubscriber) {
+			clearTimeout(disposeTimer);
+			subscribers.add(subscriber);
+			if (!socket && !isManuallyClosed && reconnectTimer === undefined) {
+				connect();
+			}
+			return () => {
+				subscribers.delete(subscriber);
+				if (subscribers.size > 0) return;
+				// Deferred, so a subscriber remounting right away (e.g. in StrictMode) keeps the socket.
+				disposeTimer = setTimeout(() => {
+					if (subscribers.size > 0) return;
+					teardown();
+					queue = [];
+					connections.delete(key);
+				}, 0);
+			};
+		},
+	};
+}
+
+function getConnection(
+	key: string,
+	url: string,
+	protocols: string | string[] | undefined
+) {
+	let connection = connections.get(key);
+	if (!connection) {
+		connection = createConnection(key, url, protocols);
+		connections.set(key, connection);
+	}
+	return connection;
+}
 
 /**
+ * `useWebsocket` manages a WebSocket connection with automatic reconnection, heartbeats
+ * and an outgoing message queue.
+ *
+ * Hooks using the same URL and protocols share a single, reference-counted connection,
+ * which closes when the last of them unmounts. Pass `shared: false` for a dedicated connection.
+ * Note that `close()` closes a shared connection for every hook using it, not only the caller.
+ *
+ * Unexpected closes are retried with exponential backoff up to `maxReconnectAttempts`.
+ * With `heartbeat`, a ping is sent periodically and the connection is dropped and reopened
+ * when nothing arrives within `timeout`. Messages sent while disconnected are queued and sent on open.
  *
+ * @template TIncoming Type of the parsed incoming messages, usually a discriminated union.
+ * @template TOutgoing Type of the messages sent with `sendJson`.
+ * @param url WebSocket endpoint URL.
+ * @param options Connection and lifecycle options.
  *
- * @returns
+ * @returns WebSocket connection helpers and state.
  *
  * @example
  * ```tsx
+ * function Chat() {
+ *   const { readyState, lastMessage, send } = useWebsocket('wss://chat.example.com', {
+ *     protocols: ['chat.v2'],
+ *     heartbeat: { interval: 20000, timeout: 5000 },
+ *     maxReconnectAttempts: 20,
+ *   });
  *
+ *   const message = lastMessage ? JSON.parse(lastMessage.data) : null;
+ *
+ *   return (
+ *     <>
+ *       <p>{readyState === WebSocket.OPEN ? 'Online' : 'Reconnecting…'}</p>
+ *       <p>{message?.text}</p>
+ *       <button onClick={() => send(JSON.stringify({ text: 'Hi!' }))}>Send</button>
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Typed messages and topic subscriptions over a shared connection
+ * type ServerMessage =
+ *   | { type: 'price'; symbol: string; price: number }
+ *   | { type: 'trade'; id: string; amount: number };
+ *
+ * function Ticker({ symbol }: { symbol: string }) {
+ *   const [price, setPrice] = React.useState<number>();
+ *   const { subscribe, sendJson } = useWebsocket<ServerMessage, { action: string; symbol: string }>(
+ *     'wss://market.example.com'
+ *   );
+ *
+ *   React.useEffect(() => {
+ *     sendJson({ action: 'watch', symbol });
+ *     return subscribe('price', message => {
+ *       if (message.symbol === symbol) setPrice(message.price);
+ *     });
+ *   }, [subscribe, sendJson, symbol]);
+ *
+ *   return <span>{price}</span>;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Binary messages
+ * const { send, lastMessage } = useWebsocket(url, { binaryType: 'arraybuffer' });
+ * send(new Uint8Array([1, 2, 3]));
+ * const bytes = lastMessage && new Uint8Array(lastMessage.data as ArrayBuffer);
  * ```
  *
  * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
@@ -16,4 +560,143 @@ import * as React from 'react';
  * @version 0.0.1
  *
  */
-export function useWebsocket() {}
+export function useWebsocket<TIncoming = unknown, TOutgoing = TIncoming>(
+	url: string,
+	options: UseWebsocketOptions<TIncoming> = {}
+): UseWebsocketResult<TIncoming, TOutgoing> {
+	const { enabled = true, shared = true, protocols } = options;
+	const protocolsKey = Array.isArray(protocols)
+		? protocols.join(',')
+		: (protocols ?? '');
+	const id = React.useId();
+	const key = shared
+		? `${url}|${protocolsKey}`
+		: `${url}|${protocolsKey}|${id}`;
+
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	const handlersRef = React.useRef(
+		new Set<{
+			filter: (message: TIncoming) => boolean;
+			handler: (message: TIncoming, event: MessageEvent) => void;
+		}>()
+	);
+
+	const [connection, setConnection] =
+		React.useState<WebsocketConnection | null>(null);
+	const connectionRef = React.useRef<WebsocketConnection | null>(null);
+	const pendingRef = React.useRef<WebsocketData[]>([]);
+
+	const isSupported =
+		typeof window !== 'undefined' && typeof WebSocket !== 'undefined';
+
+	const parse = React.useCallback(
+		(event: MessageEvent) =>
+			(optionsRef.current.parse ?? defaultParse)(event) as TIncoming,
+		[]
+	);
+
+	React.useEffect(() => {
+		if (!isSupported || !enabled) return;
+		const current = getConnection(
+			key,
+			url,
+			protocolsKey ? optionsRef.current.protocols : undefined
+		);
+		const detach = current.attach({
+			getOptions: () => optionsRef.current,
+			onMessage: event => {
+				optionsRef.current.onMessage?.(event);
+				if (handlersRef.current.size === 0) return;
+				const message = parse(event);
+				handlersRef.current.forEach(({ filter, handler }) => {
+					if (filter(message)) handler(message, event);
+				});
+			},
+		});
+		connectionRef.current = current;
+		setConnection(current);
+		pendingRef.current.splice(0).forEach(data => current.send(data));
+		return () => {
+			detach();
+			connectionRef.current = null;
+			setConnection(null);
+		};
+	}, [key, url, protocolsKey, enabled, isSupported, parse]);
+
+	const suscribe = React.useCallback(
+		(listener: () => void) => connection?.suscribe(listener) ?? (() => {}),
+		[connection]
+	);
+	const getSnapshot = React.useCallback(
+		() => connection?.getSnapshot() ?? idleSnapshot,
+		[connection]
+	);
+
+	const { readyState, lastMessage, reconnectAttempt } =
+		React.useSyncExternalStore(suscribe, getSnapshot, () => idleSnapshot);
+
+	const lastJsonMessage = React.useMemo(
+		() => (lastMessage ? parse(lastMessage) : null),
+		[lastMessage, parse]
+	);
+
+	const send = React.useCallback((data: WebsocketData) => {
+		const current = connectionRef.current;
+		if (current) return current.send(data);
+		// Not attached yet: keep it until the connection is acquired.
+		if (optionsRef.current.queueMessages ?? true) {
+			pendingRef.current.push(data);
+		}
+		return false;
+	}, []);
+
+	const sendJson = React.useCallback(
+		(message: TOutgoing) => send(JSON.stringify(message)),
+		[send]
+	);
+
+	const subscribe = React.useCallback(
+		(
+			filter: string | ((message: TIncoming) => boolean),
+			handler: (message: TIncoming, event: MessageEvent) => void
+		) => {
+			const entry = {
+				filter:
+					typeof filter === 'function'
+						? filter
+						: (message: TIncoming) =>
+								typeof message === 'object' &&
+								message !== null &&
+								(message as { type?: unknown }).type === filter,
+				handler,
+			};
+			handlersRef.current.add(entry);
+			return () => {
+				handlersRef.current.delete(entry);
+			};
+		},
+		[]
+	) as UseWebsocketResult<TIncoming, TOutgoing>['subscribe'];
+
+	const close = React.useCallback((code?: number, reason?: string) => {
+		connectionRef.current?.close(code, reason);
+	}, []);
+
+	const reconnect = React.useCallback(() => {
+		connectionRef.current?.reconnect();
+	}, []);
+
+	return {
+		readyState,
+		lastMessage,
+		lastJsonMessage,
+		reconnectAttempt,
+		send,
+		sendJson,
+		subscribe,
+		close,
+		reconnect,
+	};
+}
@@ -0,0 +1,487 @@
+import * as React from 'react';
+import {
+	type UseWebsocketOptions,
+	type UseWebsocketResult,
+	useWebsocket,
+	type WebsocketData,
+} from './useWebsocket';
+
+export type RpcId = number | string;
+
+export interface RpcRequestFrame {
+	jsonrpc: '2.0';
+	/**
+	 * Present on calls, absent on notifications.
+	 */
+	id?: RpcId;
+	method: string;
+	params?: unknown;
+}
+
+export interface RpcErrorObject {
+	code: number;
+	message: string;
+	data?: unknown;
+}
+
+export interface RpcResponseFrame {
+	jsonrpc: '2.0';
+	id: RpcId | null;
+	result?: unknown;
+	error?: RpcErrorObject;
+}
+
+export type RpcFrame = RpcRequestFrame | RpcResponseFrame;
+
+/**
+ * Converts frames to and from WebSocket messages.
+ */
+export interface WebsocketRpcCodec {
+	/**
+	 * Binary type the codec expects for incoming messages.
+	 */
+	binaryType?: BinaryType;
+	encode(frame: RpcFrame): WebsocketData;
+	decode(data: unknown): RpcFrame | Promise<RpcFrame>;
+}
+
+/**
+ * Default codec: frames are sent as JSON text messages.
+ */
+export const jsonRpcCodec: WebsocketRpcCodec = {
+	encode: frame => JSON.stringify(frame),
+	decode: data => JSON.parse(String(data)) as RpcFrame,
+};
+
+export class RpcError extends Error {
+	constructor(
+		message: string,
+		public code?: number,
+		public data?: unknown
+	) {
+		super(message);
+		this.name = 'RpcError';
+	}
+}
+
+/**
+ * Map of method name to its params and result types.
+ */
+export type RpcMethods = Record<string, { params: unknown; result: unknown }>;
+
+/**
+ * Map of channel name to the type of its messages.
+ */
+export type RpcChannels = Record<string, unknown>;
+
+export interface RpcCallOptions {
+	/**
+	 * Time to wait for the response in milliseconds. Overrides the hook `timeout`.
+	 */
+	timeout?: number;
+
+	/**
+	 * Rejects the call when aborted. The server is not notified.
+	 */
+	signal?: AbortSignal;
+}
+
+export interface UseWebsocketRpcOptions extends Omit<
+	UseWebsocketOptions,
+	'parse'
+> {
+	/**
+	 * Frame codec.
+	 * @default jsonRpcCodec
+	 */
+	codec?: WebsocketRpcCodec;
+
+	/**
+	 * Time to wait for a response in milliseconds.
+	 * @default 10000
+	 */
+	timeout?: number;
+
+	/**
+	 * Method called with `{ channel }` to subscribe to a channel.
+	 * @default 'subscribe'
+	 */
+	subscribeMethod?: string;
+
+	/**
+	 * Method called with `{ channel }` to unsubscribe from a channel.
+	 * @default 'unsubscribe'
+	 */
+	unsubscribeMethod?: string;
+
+	/**
+	 * Called for every notification frame, including channel messages.
+	 */
+	onNotification?: (frame: RpcRequestFrame) => void;
+
+	/**
+	 * Called when a message cannot be decoded.
+	 * Without it, decode errors are reported with `reportError`, like errors thrown while handling a frame.
+	 */
+	onDecodeError?: (error: unknown, event: MessageEvent) => void;
+}
+
+export interface UseWebsocketRpcResult<
+	Methods extends RpcMethods,
+	Channels extends RpcChannels,
+> extends Pick<
+	UseWebsocketResult,
+	'readyState' | 'reconnectAttempt' | 'close' | 'reconnect'
+> {
+	/**
+	 * Calls a remote method and resolves with its result.
+	 * Rejects with an `RpcError` on error responses, timeouts, when the connection drops,
+	 * when the call is dropped from a full queue, or when the component unmounts.
+	 */
+	call: <Method extends Extract<keyof Methods, string>>(
+		method: Method,
+		params: Methods[Method]['params'],
+		options?: RpcCallOptions
+	) => Promise<Methods[Method]['result']>;
+
+	/**
+	 * Sends a notification (a call without response).
+	 */
+	notify: (method: string, params?: unknown) => void;
+
+	/**
+	 * Subscribes to a server channel. The subscribe frame is sent again after every reconnect,
+	 * and the unsubscribe frame once the last handler of the channel is removed.
+	 */
+	subscribe: <Channel extends Extract<keyof Channels, string>>(
+		channel: Channel,
+		handler: (data: Channels[Channel]) => void
+	) => () => void;
+}
+
+interface PendingCall {
+	resolve: (result: unknown) => void;
+	reject: (error: unknown) => void;
+	/**
+	 * Encoded call frame, matched against the messages dropped from the queue.
+	 */
+	data: WebsocketData;
+	isSent: boolean;
+}
+
+// Shared across hooks, so calls over a shared connection never reuse an id.
+let nextId = 0;
+
+function isResponseFrame(frame: RpcFrame): frame is RpcResponseFrame {
+	return !('method' in frame);
+}
+
+function getChannelMessage(
+	frame: RpcRequestFrame
+): { channel: string; data: unknown } | null {
+	const { params } = frame;
+	if (typeof params !== 'object' || params === null) return null;
+	const { channel, data } = params as { channel?: unknown; data?: unknown };
+	return typeof channel === 'string' ? { channel, data } : null;
+}
+
+/**
+ * `useWebsocketRpc` adds request/response calls and channel subscriptions on top of `useWebsocket`,
+ * using JSON-RPC 2.0 frames.
+ *
+ * - `call(method, params)` sends `{ jsonrpc, id, method, params }` and resolves with the `result`
+ *   of the response with the same `id`.
+ * - `subscribe(channel, handler)` calls `subscribeMethod` with `{ channel }` and routes notifications
+ *   shaped as `{ method, params: { channel, data } }` to the handler.
+ *
+ * Frames go through a pluggable codec, so the same layer can carry MessagePack or any other format.
+ * Channel subscriptions are tracked per hook: share the returned `subscribe` (e.g. through context)
+ * instead of subscribing to the same channel from several hooks.
+ *
+ * @template Methods Map of method name to its params and result types.
+ * @template Channels Map of channel name to its message type.
+ * @param url WebSocket endpoint URL.
+ * @param options RPC, codec and connection options.
+ *
+ * @returns RPC helpers and connection state.
+ *
+ * @example
+ * ```tsx
+ * type Methods = {
+ *   getUser: { params: { id: string }; result: User };
+ * };
+ * type Channels = {
+ *   'orders:created': Order;
+ * };
+ *
+ * function Orders() {
+ *   const rpc = useWebsocketRpc<Methods, Channels>('wss://api.example.com/rpc', {
+ *     timeout: 5000,
+ *   });
+ *   const [orders, setOrders] = React.useState<Order[]>([]);
+ *
+ *   React.useEffect(
+ *     () => rpc.subscribe('orders:created', order => setOrders(prev => [order, ...prev])),
+ *     [rpc.subscribe]
+ *   );
+ *
+ *   const openUser = async (id: string) => {
+ *     const user = await rpc.call('getUser', { id });
+ *     console.log(user.name);
+ *   };
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // MessagePack codec
+ * import { decode, encode } from '@msgpack/msgpack';
+ *
+ * const msgpackCodec: WebsocketRpcCodec = {
+ *   binaryType: 'arraybuffer',
+ *   encode: frame => encode(frame),
+ *   decode: data => decode(data as ArrayBuffer) as RpcFrame,
+ * };
+ *
+ * const rpc = useWebsocketRpc(url, { codec: msgpackCodec });
+ * ```
+ *
+ * @author Sebastian Marat Urdanegui Bisalaya <https://sebastianurdanegui.com>
+ *
+ * @since 0.0.1
+ * @version 0.0.1
+ *
+ */
+export function useWebsocketRpc<
+	Methods extends RpcMethods = RpcMethods,
+	Channels extends RpcChannels = RpcChannels,
+>(
+	url: string,
+	options: UseWebsocketRpcOptions = {}
+): UseWebsocketRpcResult<Methods, Channels> {
+	const { codec = jsonRpcCodec } = options;
+
+	const optionsRef = React.useRef(options);
+	optionsRef.current = options;
+
+	const pendingRef = React.useRef(new Map<RpcId, PendingCall>());
+	const channelsRef = React.useRef(
+		new Map<string, Set<(data: unknown) => void>>()
+	);
+
+	const handleFrame = React.useCallback((frame: RpcFrame) => {
+		if (isResponseFrame(frame)) {
+			if (frame.id === null) return;
+			const pending = pendingRef.current.get(frame.id);
+			if (!pending) return;
+			pendingRef.current.delete(frame.id);
+			if (frame.error) {
+				pending.reject(
+					new RpcError(frame.error.message, frame.error.code, frame.error.data)
+				);
+			} else {
+				pending.resolve(frame.result);
+			}
+			return;
+		}
+		if (frame.id !== undefined) return;
+		optionsRef.current.onNotification?.(frame);
+		const message = getChannelMessage(frame);
+		if (!message) return;
+		channelsRef.current
+			.get(message.channel)
+			?.forEach(handler => handler(message.data));
+	}, []);
+
+	const socket = useWebsocket(url, {
+		...options,
+		binaryType: options.binaryType ?? codec.binaryType ?? 'blob',
+		parse: event => event.data,
+		onMessage: event => {
+			optionsRef.current.onMessage?.(event);
+			const { codec = jsonRpcCodec, onDecodeError } = optionsRef.current;
+			Promise.resolve()
+				.then(() => codec.decode(event.data))
+				.then(handleFrame, (error: unknown) => {
+					if (!onDecodeError) throw error;
+					onDecodeError(error, event);
+				})
+				.catch(reportError);
+		},
+		onOpen: event => {
+			optionsRef.current.onOpen?.(event);
+			// The queued frames were flushed right before the open callbacks.
+			pendingRef.current.forEach(pending => {
+				pending.isSent = true;
+			});
+		},
+		onClose: event => {
+			optionsRef.current.onClose?.(event);
+			// Responses to calls already sent will never arrive on a new connection.
+			pendingRef.current.forEach((pending, id) => {
+				if (!pending.isSent) return;
+				pendingRef.current.delete(id);
+				pending.reject(
+					new RpcError('Connection closed before a response was received.')
+				);
+			});
+		},
+		onQueueOverflow: data => {
+			optionsRef.current.onQueueOverflow?.(data);
+			pendingRef.current.forEach(pending => {
+				if (pending.data !== data) return;
+				pending.reject(
+					new RpcError('Call dropped because the message queue is full.')
+				);
+			});
+		},
+	});
+	const { send, readyState } = socket;
+
+	const sendFrame = React.useCallback(
+		(frame: RpcFrame) => {
+			const { codec = jsonRpcCodec } = optionsRef.current;
+			return send(codec.encode(frame));
+		},
+		[send]
+	);
+
+	const call = React.useCallback(
+		<Method extends Extract<keyof Methods, string>>(
+			method: Method,
+			params: Methods[Method]['params'],
+			callOptions: RpcCallOptions = {}
+		) =>
+			new Promise<Methods[Method]['result']>((resolve, reject) => {
+				const { signal, timeout = optionsRef.current.timeout ?? 10000 } =
+					callOptions;
+				if (signal?.aborted) {
+					reject(signal.reason);
+					return;
+				}
+				const id = ++nextId;
+
+				const settle = () => {
+					clearTimeout(timer);
+					signal?.removeEventListener('abort', onAbort);
+					pendingRef.current.delete(id);
+				};
+				const onAbort = () => {
+					settle();
+					reject(signal?.reason);
+				};
+				const timer = setTimeout(() => {
+					settle();
+					reject(
+						new RpcError(`Call to "${method}" timed out after ${timeout}ms.`)
+					);
+				}, timeout);
+				signal?.addEventListener('abort', onAbort, { once: true });
+
+				const { codec = jsonRpcCodec } = optionsRef.current;
+				const pending: PendingCall = {
+					resolve: result => {
+						settle();
+						resolve(result as Methods[Method]['result']);
+					},
+					reject: error => {
+						settle();
+						reject(error);
+					},
+					data: codec.encode({ jsonrpc: '2.0', id, method, params }),
+					isSent: false,
+				};
+				pendingRef.current.set(id, pending);
+				pending.isSent = send(pending.data);
+				if (!pending.isSent && optionsRef.current.queueMessages === false) {
+					pending.reject(new RpcError('Connection is not open.'));
+				}
+			}),
+		[send]
+	);
+
+	// Responses to calls still pending can no longer be delivered.
+	React.useEffect(() => {
+		const pending = pendingRef.current;
+		return () => {
+			pending.forEach(call => {
+				call.reject(
+					new RpcError('Component unmounted before a response was received.')
+				);
+			});
+		};
+	}, []);
+
+	const notify = React.useCallback(
+		(method: string, params?: unknown) => {
+			sendFrame({
+				jsonrpc: '2.0',
+				method,
+				...(params !== undefined && { params }),
+			});
+		},
+		[sendFrame]
+	);
+
+	const sendChannelFrame = React.useCallback(
+		(method: string, channel: string) => {
+			sendFrame({ jsonrpc: '2.0', id: ++nextId, method, params: { channel } });
+		},
+		[sendFrame]
+	);
+
+	const readyStateRef = React.useRef(readyState);
+	readyStateRef.current = readyState;
+
+	// Every (re)opened connection starts without subscriptions.
+	React.useEffect(() => {
+		if (readyState !== WebSocket.OPEN) return;
+		const { subscribeMethod = 'subscribe' } = optionsRef.current;
+		channelsRef.current.forEach((_, channel) => {
+			sendChannelFrame(subscribeMethod, channel);
+		});
+	}, [readyState, sendChannelFrame]);
+
+	const subscribe = React.useCallback(
+		<Channel extends Extract<keyof Channels, string>>(
+			channel: Channel,
+			handler: (data: Channels[Channel]) => void
+		) => {
+			// Channel data is not validated: the handler trusts the `Channels` map.
+			const listener = handler as (data: unknown) => void;
+			const handlers = channelsRef.current.get(channel) ?? new Set();
+			const isFirst = handlers.size === 0;
+			handlers.add(listener);
+			channelsRef.current.set(channel, handlers);
+			// While disconnected, the subscription is sent once the connection opens.
+			if (isFirst && readyStateRef.current === WebSocket.OPEN) {
+				sendChannelFrame(
+					optionsRef.current.subscribeMethod ?? 'subscribe',
+					channel
+				);
+			}
+			return () => {
+				handlers.delete(listener);
+				if (handlers.size > 0) return;
+				channelsRef.current.delete(channel);
+				if (readyStateRef.current === WebSocket.OPEN) {
+					sendChannelFrame(
+						optionsRef.current.unsubscribeMethod ?? 'unsubscribe',
+						channel
+					);
+				}
+			};
+		},
+		[sendChannelFrame]
+	);
+
+	return {
+		readyState: socket.readyState,
+		reconnectAttempt: socket.reconnectAttempt,
+		close: socket.close,
+		reconnect: socket.reconnect,
+		call,
+		notify,
+		subscribe,
+	};
+}
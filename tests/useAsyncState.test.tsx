@@ -0,0 +1,646 @@
+import * as React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	createFetchClient,
+	createQueryCache,
+	defaultRetryOn,
+	exponentialBackoff,
+	FetchError,
+	getQueryKey,
+	QueryCacheProvider,
+	type StandardSchemaV1,
+	useAsyncState,
+	ValidationError,
+} from '../src/useAsyncState';
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+	vi.unstubAllGlobals();
+});
+
+describe('createQueryCache', () => {
+	it('shares the in-flight request between concurrent fetches of a key', async () => {
+		const cache = createQueryCache();
+		const fetcher = vi.fn(async () => 'todos');
+
+		const results = await Promise.all([
+			cache.fetch('todos', fetcher),
+			cache.fetch('todos', fetcher),
+		]);
+
+		expect(fetcher).toHaveBeenCalledTimes(1);
+		expect(results).toEqual(['todos', 'todos']);
+		expect(cache.getSnapshot('todos')).toMatchObject({
+			data: 'todos',
+			isSuccess: true,
+			isFetching: false,
+		});
+	});
+
+	it('fetches again once the previous request settled', async () => {
+		const cache = createQueryCache();
+		const fetcher = vi.fn(async () => 'todos');
+
+		await cache.fetch('todos', fetcher);
+		await cache.fetch('todos', fetcher);
+
+		expect(fetcher).toHaveBeenCalledTimes(2);
+	});
+
+	it('keeps the current data while refetching', async () => {
+		const cache = createQueryCache();
+		await cache.fetch('todos', async () => ['milk']);
+		let resolve: (data: string[]) => void = () => {};
+
+		const refetch = cache.fetch(
+			'todos',
+			() => new Promise<string[]>(done => (resolve = done))
+		);
+		expect(cache.getSnapshot('todos')).toMatchObject({
+			data: ['milk'],
+			isLoading: false,
+			isFetching: true,
+		});
+
+		resolve(['milk', 'eggs']);
+		await refetch;
+		expect(cache.getSnapshot('todos')).toMatchObject({
+			data: ['milk', 'eggs'],
+			isFetching: false,
+		});
+	});
+
+	it('aborts the in-flight request on cancel and keeps the previous state', () => {
+		const cache = createQueryCache();
+		cache.setData('todos', ['milk']);
+		let requestSignal: AbortSignal | undefined;
+
+		cache
+			.fetch('todos', ({ signal }) => {
+				requestSignal = signal;
+				return new Promise<string[]>(() => {});
+			})
+			.catch(() => undefined);
+		cache.cancel('todos');
+
+		expect(requestSignal?.aborted).toBe(true);
+		expect(cache.getSnapshot('todos')).toMatchObject({
+			data: ['milk'],
+			isFetching: false,
+		});
+	});
+
+	it('refetches invalidated entries that have subscribers', async () => {
+		const cache = createQueryCache();
+		const fetcher = vi.fn(async () => 'todos');
+		cache.suscribe('/api/todos', () => {});
+		await cache.fetch('/api/todos', fetcher);
+
+		await cache.invalidate('/api/todos');
+
+		expect(fetcher).toHaveBeenCalledTimes(2);
+		expect(cache.isInvalidated('/api/todos')).toBe(false);
+	});
+
+	it('garbage-collects entries without subscribers after gcTime', async () => {
+		vi.useFakeTimers();
+		const cache = createQueryCache({ gcTime: 1000 });
+		await cache.fetch('todos', async () => 'todos');
+
+		vi.advanceTimersByTime(999);
+		expect(cache.keys()).toEqual(['todos']);
+
+		vi.advanceTimersByTime(1);
+		expect(cache.keys()).toEqual([]);
+	});
+
+	it('keeps entries while they have subscribers', async () => {
+		vi.useFakeTimers();
+		const cache = createQueryCache({ gcTime: 1000 });
+		const unsuscribe = cache.suscribe('todos', () => {});
+		await cache.fetch('todos', async () => 'todos');
+
+		vi.advanceTimersByTime(5000);
+		expect(cache.keys()).toEqual(['todos']);
+
+		unsuscribe();
+		vi.advanceTimersByTime(1000);
+		expect(cache.keys()).toEqual([]);
+	});
+
+	it('seeds subscribed entries with initialData and restores it when evicted', () => {
+		const cache = createQueryCache();
+		cache.suscribe('private:list', () => {}, []);
+		expect(cache.getSnapshot('private:list')?.data).toEqual([]);
+
+		cache.setData('private:list', ['milk']);
+		cache.evict('private:list');
+		expect(cache.getSnapshot('private:list')?.data).toEqual([]);
+	});
+
+	it('matches infinite query keys when invalidating by URL', async () => {
+		const cache = createQueryCache();
+		cache.suscribe('infinite:/api/messages?channel=1', () => {});
+		cache.suscribe('private:/api/messages', () => {});
+
+		await cache.invalidate('/api/messages');
+
+		expect(cache.isInvalidated('infinite:/api/messages?channel=1')).toBe(true);
+		expect(cache.isInvalidated('private:/api/messages')).toBe(false);
+	});
+});
+
+describe('useAsyncState', () => {
+	const url = 'https://api.example.com/todos';
+
+	function stubFetch() {
+		const transport = vi.fn(async () => Response.json(['milk']));
+		vi.stubGlobal('fetch', transport);
+		return transport;
+	}
+
+	function withCache(cache = createQueryCache()) {
+		return ({ children }: { children: React.ReactNode }) => (
+			<QueryCacheProvider cache={cache}>{children}</QueryCacheProvider>
+		);
+	}
+
+	it('reads fresh cached data without refetching', async () => {
+		const transport = stubFetch();
+		const wrapper = withCache();
+
+		const first = await renderHook(
+			() => useAsyncState<string[]>({ url, staleTime: 60_000 }),
+			{ wrapper }
+		);
+		await vi.waitFor(() => expect(first.result.current.isSuccess).toBe(true));
+
+		const second = await renderHook(
+			() => useAsyncState<string[]>({ url, staleTime: 60_000 }),
+			{ wrapper }
+		);
+
+		expect(second.result.current).toMatchObject({
+			data: ['milk'],
+			isStale: false,
+			isFetching: false,
+		});
+		expect(transport).toHaveBeenCalledTimes(1);
+	});
+
+	it('retries failed requests and reports the attempt', async () => {
+		const transport = vi
+			.fn()
+			.mockResolvedValueOnce(new Response('boom', { status: 500 }))
+			.mockResolvedValue(Response.json(['milk']));
+		vi.stubGlobal('fetch', transport);
+
+		const { result } = await renderHook(
+			() =>
+				useAsyncState<string[]>({ url, config: { retries: 2, retryDelay: 1 } }),
+			{ wrapper: withCache() }
+		);
+
+		await vi.waitFor(() => expect(result.current.isSuccess).toBe(true));
+		expect(result.current).toMatchObject({ data: ['milk'], attempt: 2 });
+		expect(transport).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not retry client errors by default', async () => {
+		const transport = vi.fn(async () => new Response('nope', { status: 404 }));
+		vi.stubGlobal('fetch', transport);
+
+		const { result } = await renderHook(
+			() =>
+				useAsyncState<string[]>({ url, config: { retries: 2, retryDelay: 1 } }),
+			{ wrapper: withCache() }
+		);
+
+		await vi.waitFor(() => expect(result.current.isError).toBe(true));
+		expect(transport).toHaveBeenCalledTimes(1);
+	});
+
+	it('waits for the Retry-After header before retrying', async () => {
+		vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+		const transport = vi
+			.fn()
+			.mockResolvedValueOnce(
+				new Response(null, { status: 429, headers: { 'Retry-After': '2' } })
+			)
+			.mockResolvedValue(Response.json(['milk']));
+		vi.stubGlobal('fetch', transport);
+
+		const { result } = await renderHook(
+			() =>
+				useAsyncState<string[]>({
+					url,
+					config: { retries: 1, retryDelay: 10 },
+				}),
+			{ wrapper: withCache() }
+		);
+
+		await vi.advanceTimersByTimeAsync(1999);
+		expect(transport).toHaveBeenCalledTimes(1);
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(transport).toHaveBeenCalledTimes(2);
+		await vi.waitFor(() => expect(result.current.data).toEqual(['milk']));
+	});
+
+	it('waits until the date of the Retry-After header', async () => {
+		vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+		vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+		const transport = vi
+			.fn()
+			.mockResolvedValueOnce(
+				new Response(null, {
+					status: 503,
+					headers: { 'Retry-After': 'Wed, 01 Jan 2025 00:00:05 GMT' },
+				})
+			)
+			.mockResolvedValue(Response.json(['milk']));
+		vi.stubGlobal('fetch', transport);
+
+		await renderHook(
+			() =>
+				useAsyncState<string[]>({
+					url,
+					config: { retries: 1, retryDelay: 10 },
+				}),
+			{ wrapper: withCache() }
+		);
+
+		await vi.advanceTimersByTimeAsync(4999);
+		expect(transport).toHaveBeenCalledTimes(1);
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(transport).toHaveBeenCalledTimes(2);
+	});
+
+	it('ignores Retry-After on statuses other than 429 and 503', async () => {
+		vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+		const transport = vi
+			.fn()
+			.mockResolvedValueOnce(
+				new Response(null, { status: 500, headers: { 'Retry-After': '60' } })
+			)
+			.mockResolvedValue(Response.json(['milk']));
+		vi.stubGlobal('fetch', transport);
+
+		await renderHook(
+			() =>
+				useAsyncState<string[]>({
+					url,
+					config: { retries: 1, retryDelay: 10 },
+				}),
+			{ wrapper: withCache() }
+		);
+
+		await vi.advanceTimersByTimeAsync(10);
+		expect(transport).toHaveBeenCalledTimes(2);
+	});
+
+	it('parses the response with the configured parser', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('{"id":1}\n\n{"id":2}\n'))
+		);
+
+		const { result } = await renderHook(
+			() =>
+				useAsyncState<{ id: number }[]>({ url, config: { parse: 'ndjson' } }),
+			{ wrapper: withCache() }
+		);
+
+		await vi.waitFor(() =>
+			expect(result.current.data).toEqual([{ id: 1 }, { id: 2 }])
+		);
+	});
+
+	it('fails with a ValidationError when the schema rejects the data', async () => {
+		const transport = stubFetch();
+		const schema: StandardSchemaV1<unknown, string[]> = {
+			'~standard': {
+				version: 1,
+				vendor: 'test',
+				validate: () => ({ issues: [{ message: 'Expected an object' }] }),
+			},
+		};
+
+		const { result } = await renderHook(
+			() => useAsyncState<string[]>({ url, config: { schema, retries: 2 } }),
+			{ wrapper: withCache() }
+		);
+
+		await vi.waitFor(() => expect(result.current.isError).toBe(true));
+		expect(result.current.error).toBeInstanceOf(ValidationError);
+		expect(result.current.error?.message).toBe(
+			'Response validation failed: Expected an object'
+		);
+		expect((result.current.error as ValidationError).data).toEqual(['milk']);
+		expect(transport).toHaveBeenCalledTimes(1);
+	});
+
+	it('returns the value produced by the schema and validate', async () => {
+		stubFetch();
+		const schema: StandardSchemaV1<unknown, string[]> = {
+			'~standard': {
+				version: 1,
+				vendor: 'test',
+				validate: value => ({ value: (value as string[]).concat('eggs') }),
+			},
+		};
+
+		const { result } = await renderHook(
+			() =>
+				useAsyncState<number>({
+					url,
+					config: { schema, validate: data => (data as string[]).length },
+				}),
+			{ wrapper: withCache() }
+		);
+
+		await vi.waitFor(() => expect(result.current.data).toBe(2));
+	});
+
+	it('wraps errors thrown by validate in a ValidationError', async () => {
+		stubFetch();
+
+		const { result } = await renderHook(
+			() =>
+				useAsyncState<string[]>({
+					url,
+					config: {
+						validate: () => {
+							throw new Error('Missing items');
+						},
+					},
+				}),
+			{ wrapper: withCache() }
+		);
+
+		await vi.waitFor(() => expect(result.current.isError).toBe(true));
+		expect(result.current.error).toBeInstanceOf(ValidationError);
+		expect(result.current.error?.message).toBe('Missing items');
+	});
+
+	it('sends requests through the provided client', async () => {
+		const transport = vi.fn(async (_request: Request) => Response.json([1]));
+		const onError = vi.fn();
+		const client = createFetchClient({
+			baseUrl: 'https://api.example.com',
+			fetch: transport,
+			onError,
+		});
+
+		const { result } = await renderHook(
+			() => useAsyncState<number[]>({ url: '/todos', client }),
+			{ wrapper: withCache() }
+		);
+
+		await vi.waitFor(() => expect(result.current.data).toEqual([1]));
+		expect(transport.mock.calls[0]![0].url).toBe(
+			'https://api.example.com/todos'
+		);
+
+		transport.mockResolvedValueOnce(new Response(null, { status: 400 }));
+		await result.current.execute('/todos').catch(() => undefined);
+		expect(onError).toHaveBeenCalledWith(expect.any(FetchError));
+	});
+
+	it('streams NDJSON items to onChunk and partialData', async () => {
+		const encoder = new TextEncoder();
+		let push: (text: string | null) => void = () => {};
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				push = text =>
+					text === null
+						? controller.close()
+						: controller.enqueue(encoder.encode(text));
+			},
+		});
+		const client = createFetchClient({ fetch: async () => new Response(body) });
+		const onChunk = vi.fn();
+
+		const { result } = await renderHook(
+			() =>
+				useAsyncState<{ id: number }[]>({
+					url,
+					client,
+					config: { stream: 'ndjson', onChunk },
+				}),
+			{ wrapper: withCache() }
+		);
+
+		push('{"id":1}\n{"id"');
+		await vi.waitFor(() =>
+			expect(result.current.partialData).toEqual([{ id: 1 }])
+		);
+		expect(result.current.isSuccess).toBe(false);
+
+		push(':2}\n');
+		push(null);
+		await vi.waitFor(() => expect(result.current.isSuccess).toBe(true));
+		expect(result.current.data).toEqual([{ id: 1 }, { id: 2 }]);
+		expect(onChunk.mock.calls).toEqual([[{ id: 1 }], [{ id: 2 }]]);
+	});
+
+	it('reports the progress of text streams', async () => {
+		const client = createFetchClient({
+			fetch: async () =>
+				new Response('hello world', { headers: { 'Content-Length': '11' } }),
+		});
+
+		const { result } = await renderHook(
+			() => useAsyncState<string>({ url, client, config: { stream: 'text' } }),
+			{ wrapper: withCache() }
+		);
+
+		await vi.waitFor(() => expect(result.current.isSuccess).toBe(true));
+		expect(result.current.data).toBe('hello world');
+		expect(result.current.progress).toEqual({
+			loaded: 11,
+			total: 11,
+			percent: 100,
+		});
+	});
+
+	it('refetches stale cached data in the background', async () => {
+		const transport = stubFetch();
+		const wrapper = withCache();
+
+		const first = await renderHook(() => useAsyncState<string[]>({ url }), {
+			wrapper,
+		});
+		await vi.waitFor(() => expect(first.result.current.isSuccess).toBe(true));
+
+		const second = await renderHook(() => useAsyncState<string[]>({ url }), {
+			wrapper,
+		});
+
+		expect(second.result.current).toMatchObject({
+			data: ['milk'],
+			isLoading: false,
+		});
+		await vi.waitFor(() => expect(transport).toHaveBeenCalledTimes(2));
+	});
+});
+
+describe('createFetchClient', () => {
+	function createTransport(...responses: Response[]) {
+		return vi.fn(async (_request: Request) => {
+			return responses.shift() ?? Response.json({ ok: true });
+		});
+	}
+
+	it('resolves relative URLs against baseUrl', async () => {
+		const transport = createTransport();
+		const client = createFetchClient({
+			baseUrl: 'https://api.example.com/v1/',
+			fetch: transport,
+		});
+
+		await client.fetch('/todos');
+		await client.fetch('https://cdn.example.com/logo.svg');
+
+		expect(transport.mock.calls.map(([request]) => request.url)).toEqual([
+			'https://api.example.com/v1/todos',
+			'https://cdn.example.com/logo.svg',
+		]);
+	});
+
+	it('merges default headers with the request headers', async () => {
+		const transport = createTransport();
+		const client = createFetchClient({
+			headers: async () => ({ Accept: 'application/json', 'X-App': 'web' }),
+			fetch: transport,
+		});
+
+		await client.fetch('https://api.example.com/todos', {
+			headers: { 'X-App': 'admin' },
+		});
+
+		const [request] = transport.mock.calls[0]!;
+		expect(request.headers.get('Accept')).toBe('application/json');
+		expect(request.headers.get('X-App')).toBe('admin');
+	});
+
+	it('runs request interceptors in order', async () => {
+		const transport = createTransport();
+		const client = createFetchClient({
+			fetch: transport,
+			interceptors: {
+				request: [
+					request => {
+						request.headers.set('X-Trace', 'a');
+						return request;
+					},
+					request => {
+						request.headers.append('X-Trace', 'b');
+						return request;
+					},
+				],
+			},
+		});
+
+		await client.fetch('https://api.example.com/todos');
+
+		expect(transport.mock.calls[0]![0].headers.get('X-Trace')).toBe('a, b');
+	});
+
+	it('lets response interceptors replay the request', async () => {
+		let token = 'expired';
+		const transport = createTransport(new Response(null, { status: 401 }));
+		const client = createFetchClient({
+			fetch: transport,
+			interceptors: {
+				request: [
+					request => {
+						request.headers.set('Authorization', `Bearer ${token}`);
+						return request;
+					},
+				],
+				response: [
+					async (response, { replay }) => {
+						if (response.status !== 401) return response;
+						token = 'fresh';
+						return replay();
+					},
+				],
+			},
+		});
+
+		const response = await client.fetch('https://api.example.com/todos', {
+			method: 'POST',
+			body: JSON.stringify({ title: 'milk' }),
+		});
+
+		expect(await response.json()).toEqual({ ok: true });
+		expect(transport).toHaveBeenCalledTimes(2);
+		const replayed = transport.mock.calls[1]![0];
+		expect(replayed.headers.get('Authorization')).toBe('Bearer fresh');
+		expect(await replayed.text()).toBe('{"title":"milk"}');
+	});
+});
+
+describe('defaultRetryOn', () => {
+	it('retries network errors, timeouts, rate limits and server errors', () => {
+		expect(defaultRetryOn(new TypeError('Failed to fetch'))).toBe(true);
+		expect(defaultRetryOn(new FetchError('Timeout', 408))).toBe(true);
+		expect(defaultRetryOn(new FetchError('Too Many Requests', 429))).toBe(true);
+		expect(defaultRetryOn(new FetchError('Bad Gateway', 502))).toBe(true);
+	});
+
+	it('does not retry aborts and other client errors', () => {
+		expect(defaultRetryOn(new DOMException('Aborted', 'AbortError'))).toBe(
+			false
+		);
+		expect(defaultRetryOn(new FetchError('Not Found', 404))).toBe(false);
+	});
+});
+
+describe('exponentialBackoff', () => {
+	it('multiplies the delay by the factor up to maxDelay', () => {
+		const delay = exponentialBackoff({
+			baseDelay: 100,
+			maxDelay: 1000,
+			jitter: false,
+		});
+
+		expect([1, 2, 3, 4, 5].map(delay)).toEqual([100, 200, 400, 800, 1000]);
+	});
+
+	it('supports a custom factor', () => {
+		const delay = exponentialBackoff({
+			baseDelay: 100,
+			factor: 3,
+			jitter: false,
+		});
+
+		expect([1, 2, 3].map(delay)).toEqual([100, 300, 900]);
+	});
+
+	it('randomizes each delay between 0 and the computed value', () => {
+		vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+		expect(exponentialBackoff({ baseDelay: 100 })(3)).toBe(200);
+	});
+});
+
+describe('getQueryKey', () => {
+	it('sorts params so the same request maps to the same key', () => {
+		expect(
+			getQueryKey('https://api.example.com/todos', { page: 2, done: false })
+		).toBe(
+			getQueryKey('https://api.example.com/todos', { done: false, page: 2 })
+		);
+	});
+
+	it('keeps relative URLs, their query string and hash', () => {
+		expect(getQueryKey('/api/todos?user=1#top', { page: 2, q: 'a b' })).toBe(
+			'/api/todos?user=1&page=2&q=a+b#top'
+		);
+	});
+});
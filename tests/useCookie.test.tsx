@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import { useCookie } from '../src/useCookie';
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('useCookie', () => {
+	it('re-renders every hook of a cookie when one of them writes', async () => {
+		const first = await renderHook(() =>
+			useCookie<{ theme: string }>('prefs', { path: '/' })
+		);
+		const second = await renderHook(() =>
+			useCookie<{ theme: string }>('prefs', { path: '/' })
+		);
+
+		await first.act(() => first.result.current[1]({ theme: 'dark' }));
+
+		expect(document.cookie).toContain('prefs=%7B%22theme%22%3A%22dark%22%7D');
+		expect(second.result.current[0]).toEqual({ theme: 'dark' });
+
+		await first.act(() => first.result.current[2]());
+		expect(second.result.current[0]).toBeNull();
+	});
+
+	it('updates the value from the previous one', async () => {
+		const { result, act } = await renderHook(() =>
+			useCookie<number>('visits', { path: '/', fallback: 0 })
+		);
+
+		await act(() => result.current[1](prev => (prev ?? 0) + 1));
+		await act(() => result.current[1](prev => (prev ?? 0) + 1));
+
+		expect(result.current[0]).toBe(2);
+		await act(() => result.current[2]());
+	});
+
+	it('keeps plain string values that are not JSON', async () => {
+		document.cookie = 'lang=es-PE; Path=/';
+
+		const { result, act } = await renderHook(() => useCookie<string>('lang'));
+
+		expect(result.current[0]).toBe('es-PE');
+		await act(() => result.current[2]({ path: '/' }));
+	});
+
+	it('polls for changes made outside the hook', async () => {
+		vi.useFakeTimers();
+		const { result, act } = await renderHook(() =>
+			useCookie<string>('token', { pollInterval: 500 })
+		);
+
+		document.cookie = 'token=%22abc%22; Path=/';
+		await act(() => vi.advanceTimersByTime(500));
+
+		expect(result.current[0]).toBe('abc');
+		await act(() => result.current[2]({ path: '/' }));
+	});
+});
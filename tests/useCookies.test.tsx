@@ -0,0 +1,151 @@
+import * as React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	CookiesProvider,
+	createServerCookieJar,
+	isValidCookieName,
+	MAX_COOKIE_SIZE,
+	parseCookieHeader,
+	serializeCookie,
+	useCookies,
+} from '../src/useCookies';
+
+function clearCookies() {
+	document.cookie.split('; ').forEach(cookie => {
+		const [name] = cookie.split('=');
+		if (name) document.cookie = `${name}=; Max-Age=0; Path=/`;
+	});
+}
+
+beforeEach(clearCookies);
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('parseCookieHeader', () => {
+	it('parses and decodes every cookie', () => {
+		expect(
+			parseCookieHeader('theme=dark; cart=%5B1%2C2%5D;  lang = es ')
+		).toEqual({ theme: 'dark', cart: '[1,2]', lang: 'es' });
+	});
+
+	it('keeps "=" inside values', () => {
+		expect(parseCookieHeader('token=a=b==')).toEqual({ token: 'a=b==' });
+	});
+
+	it('keeps the first of duplicated names', () => {
+		expect(parseCookieHeader('id=1; id=2')).toEqual({ id: '1' });
+	});
+
+	it('keeps malformed escapes as they are', () => {
+		expect(parseCookieHeader('broken=%E0%A4%A')).toEqual({
+			broken: '%E0%A4%A',
+		});
+	});
+
+	it('returns an empty object for empty headers', () => {
+		expect(parseCookieHeader(null)).toEqual({});
+		expect(parseCookieHeader('')).toEqual({});
+	});
+});
+
+describe('serializeCookie', () => {
+	it('encodes the value', () => {
+		expect(serializeCookie('cart', '[1,2]')).toBe('cart=%5B1%2C2%5D');
+	});
+
+	it('writes attributes with their spec casing', () => {
+		expect(
+			serializeCookie('session', 'abc', {
+				maxAge: 3600.5,
+				expires: new Date('2030-01-01T00:00:00Z'),
+				domain: 'example.com',
+				path: '/',
+				secure: true,
+				httpOnly: true,
+				sameSite: 'lax',
+				priority: 'high',
+			})
+		).toBe(
+			'session=abc; Max-Age=3600; Expires=Tue, 01 Jan 2030 00:00:00 GMT; Domain=example.com; Path=/; Secure; HttpOnly; SameSite=Lax; Priority=High'
+		);
+	});
+
+	it('makes partitioned cookies secure', () => {
+		expect(
+			serializeCookie('widget', '1', { partitioned: true, sameSite: 'none' })
+		).toBe('widget=1; Secure; SameSite=None; Partitioned');
+	});
+});
+
+describe('isValidCookieName', () => {
+	it('accepts RFC 6265 tokens only', () => {
+		expect(isValidCookieName('__Host-session_id')).toBe(true);
+		expect(isValidCookieName('')).toBe(false);
+		expect(isValidCookieName('a;b')).toBe(false);
+		expect(isValidCookieName('a=b')).toBe(false);
+	});
+});
+
+describe('useCookies', () => {
+	it('reads and writes JSON values', async () => {
+		const { result } = await renderHook(() => useCookies());
+
+		result.current.setJSON('cart', [1, 2], { path: '/' });
+
+		expect(result.current.get('cart')).toBe('[1,2]');
+		expect(result.current.getJSON<number[]>('cart')).toEqual([1, 2]);
+		expect(result.current.getJSON('missing')).toBeNull();
+	});
+
+	it('throws for invalid names and attributes', async () => {
+		const { result } = await renderHook(() => useCookies());
+
+		expect(() => result.current.set('my cookie', '1')).toThrow(TypeError);
+		expect(() =>
+			result.current.set('id', '1', { path: '/; HttpOnly' })
+		).toThrow(TypeError);
+	});
+
+	it('warns when the cookie exceeds the size limit', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const { result } = await renderHook(() => useCookies());
+
+		result.current.set('big', 'x'.repeat(MAX_COOKIE_SIZE), { path: '/' });
+
+		expect(warn).toHaveBeenCalledOnce();
+	});
+});
+
+describe('createServerCookieJar', () => {
+	it('reads the request cookies and collects Set-Cookie headers', () => {
+		const jar = createServerCookieJar('theme=dark; session=abc');
+
+		jar.set('theme', 'light', { path: '/' });
+		jar.set('theme', 'system', { path: '/' });
+		jar.remove('session');
+
+		expect(jar.get('theme')).toBe('system');
+		expect(jar.getAll()).toEqual({ theme: 'system' });
+		expect(jar.getSetCookieHeaders()).toEqual([
+			'theme=system; Path=/',
+			'session=; Max-Age=0; Expires=Thu, 01 Jan 1970 00:00:00 GMT',
+		]);
+	});
+
+	it('is used by the hooks rendered inside CookiesProvider', async () => {
+		const jar = createServerCookieJar('theme=dark');
+		const wrapper = ({ children }: { children: React.ReactNode }) => (
+			<CookiesProvider jar={jar}>{children}</CookiesProvider>
+		);
+		const { result } = await renderHook(() => useCookies(), { wrapper });
+
+		expect(result.current.get('theme')).toBe('dark');
+
+		result.current.setJSON('cart', [1], { path: '/' });
+		expect(jar.getSetCookieHeaders()).toEqual(['cart=%5B1%5D; Path=/']);
+		expect(document.cookie).not.toContain('cart=');
+	});
+});
@@ -0,0 +1,326 @@
+import { describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	type IndexedDBSchemaDefinition,
+	indexedDBChangeStore,
+	keyRange,
+	useIndexedDB,
+} from '../src/useIndexedDB';
+
+type Todo = { id: number; title: string; done: boolean };
+
+type Schema = { todos: Todo };
+
+let database = 0;
+
+function setup() {
+	const options = {
+		name: `indexeddb-test-${++database}`,
+		version: 1,
+		onUpgrade(db: IDBDatabase) {
+			const todos = db.createObjectStore('todos', { keyPath: 'id' });
+			todos.createIndex('title', 'title', { unique: true });
+		},
+	};
+	return renderHook(() => useIndexedDB<Schema>(options));
+}
+
+const todos: Todo[] = [
+	{ id: 1, title: 'buy milk', done: false },
+	{ id: 2, title: 'buy eggs', done: true },
+	{ id: 3, title: 'walk the dog', done: false },
+];
+
+describe('useIndexedDB', () => {
+	it('writes and reads records of a store', async () => {
+		const { result } = await setup();
+		const store = result.current.store('todos');
+
+		await expect(store.put(todos[0]!)).resolves.toBe(1);
+		await store.add(todos[1]!);
+
+		expect(await store.get(1)).toEqual(todos[0]);
+		expect(await store.getAll()).toEqual([todos[0], todos[1]]);
+		expect(await store.count()).toBe(2);
+
+		await store.delete(1);
+		expect(await store.get(1)).toBeUndefined();
+
+		await store.clear();
+		expect(await store.count()).toBe(0);
+	});
+
+	it('queries key ranges and indexes', async () => {
+		const { result } = await setup();
+		const store = result.current.store('todos');
+		await store.batch(todos.map(value => ({ type: 'put', value })));
+
+		expect(await store.getAll(keyRange.above(1))).toEqual([todos[1], todos[2]]);
+		expect(await store.count(keyRange.between(1, 2))).toBe(2);
+		expect(await store.index('title').getAll(keyRange.prefix('buy'))).toEqual([
+			todos[1],
+			todos[0],
+		]);
+		expect(await store.index('title').get('walk the dog')).toEqual(todos[2]);
+	});
+
+	it('iterates records with a cursor', async () => {
+		const { result } = await setup();
+		const store = result.current.store('todos');
+		await store.batch(todos.map(value => ({ type: 'put', value })));
+
+		const titles: string[] = [];
+		for await (const todo of store.iterate({ direction: 'prev' })) {
+			titles.push(todo.title);
+		}
+
+		expect(titles).toEqual(['walk the dog', 'buy eggs', 'buy milk']);
+	});
+
+	it('applies a batch in a single transaction', async () => {
+		const { result } = await setup();
+		const store = result.current.store('todos');
+		await store.put(todos[0]!);
+
+		await store.batch([
+			{ type: 'delete', key: 1 },
+			{ type: 'add', value: todos[1]! },
+			{ type: 'put', value: { ...todos[1]!, done: false } },
+		]);
+
+		expect(await store.getAll()).toEqual([{ ...todos[1], done: false }]);
+	});
+
+	it('rejects with the request error when an add fails', async () => {
+		const { result } = await setup();
+		const store = result.current.store('todos');
+		await store.add(todos[0]!);
+
+		await expect(store.add(todos[0]!)).rejects.toMatchObject({
+			name: 'ConstraintError',
+		});
+		await expect(
+			store.batch([{ type: 'add', value: todos[0]! }])
+		).rejects.toMatchObject({ name: 'ConstraintError' });
+	});
+
+	it('rejects with the request error when a put fails', async () => {
+		const { result } = await setup();
+		const store = result.current.store('todos');
+		await store.put(todos[0]!);
+
+		await expect(
+			store.put({ ...todos[1]!, title: todos[0]!.title })
+		).rejects.toMatchObject({ name: 'ConstraintError' });
+		expect(await store.getAll()).toEqual([todos[0]]);
+	});
+
+	it('runs callbacks against a store with withStore', async () => {
+		const { result } = await setup();
+
+		const count = await result.current.withStore('todos', async store => {
+			store.put(todos[0]);
+			store.put(todos[1]);
+			return 2;
+		});
+
+		expect(count).toBe(2);
+		expect(await result.current.store('todos').count()).toBe(2);
+	});
+});
+
+describe('useIndexedDB schema', () => {
+	const v1: IndexedDBSchemaDefinition = {
+		1: { stores: { todos: { keyPath: 'id' } } },
+	};
+	const v2: IndexedDBSchemaDefinition = {
+		...v1,
+		2: {
+			indexes: { todos: { title: { keyPath: 'title' } } },
+			migrate: tx => {
+				const store = tx.objectStore('todos');
+				const request = store.openCursor();
+				request.onsuccess = () => {
+					const cursor = request.result;
+					if (!cursor) return;
+					cursor.update({ ...cursor.value, title: cursor.value.name });
+					cursor.continue();
+				};
+			},
+		},
+	};
+
+	it('creates the stores of the latest schema version', async () => {
+		const name = `indexeddb-schema-${++database}`;
+		const { result } = await renderHook(() =>
+			useIndexedDB<Schema>({ name, schema: v2 })
+		);
+
+		const db = await result.current.open();
+
+		expect(db.version).toBe(2);
+		expect(Array.from(db.objectStoreNames)).toEqual(['todos']);
+		await vi.waitFor(() => expect(result.current.status).toBe('open'));
+	});
+
+	it('runs the migrations between the stored and the latest version', async () => {
+		const name = `indexeddb-schema-${++database}`;
+		const first = await renderHook(() => useIndexedDB({ name, schema: v1 }));
+		await first.result.current.store('todos').put({ id: 1, name: 'buy milk' });
+		first.result.current.close();
+
+		const { result } = await renderHook(() =>
+			useIndexedDB<{ todos: { id: number; name: string; title: string } }>({
+				name,
+				schema: v2,
+			})
+		);
+
+		expect(await result.current.store('todos').index('title').getAll()).toEqual(
+			[{ id: 1, name: 'buy milk', title: 'buy milk' }]
+		);
+	});
+
+	it('closes outdated connections when another one upgrades', async () => {
+		const name = `indexeddb-schema-${++database}`;
+		const onVersionChange = vi.fn();
+		const first = await renderHook(() =>
+			useIndexedDB({ name, schema: v1, onVersionChange })
+		);
+		await first.result.current.open();
+
+		const second = await renderHook(() => useIndexedDB({ name, schema: v2 }));
+		await second.result.current.open();
+
+		await vi.waitFor(() =>
+			expect(first.result.current.status).toBe('outdated')
+		);
+		expect(onVersionChange).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('useIndexedDB transactions', () => {
+	type Account = { id: string; balance: number };
+	type Bank = { accounts: Account; log: { id: number; amount: number } };
+
+	async function setupBank() {
+		const options = {
+			name: `indexeddb-bank-${++database}`,
+			version: 1,
+			onUpgrade(db: IDBDatabase) {
+				db.createObjectStore('accounts', { keyPath: 'id' });
+				db.createObjectStore('log', { keyPath: 'id' });
+			},
+		};
+		const { result } = await renderHook(() => useIndexedDB<Bank>(options));
+		await result.current.store('accounts').batch([
+			{ type: 'put', value: { id: 'a', balance: 100 } },
+			{ type: 'put', value: { id: 'b', balance: 0 } },
+		]);
+		return result.current;
+	}
+
+	function transfer(stores: Record<'accounts' | 'log', IDBObjectStore>) {
+		stores.accounts.put({ id: 'a', balance: 50 });
+		stores.accounts.put({ id: 'b', balance: 50 });
+		stores.log.put({ id: 1, amount: 50 });
+	}
+
+	it('commits writes to several stores together', async () => {
+		const db = await setupBank();
+
+		const result = await db.withTransaction(
+			['accounts', 'log'],
+			'readwrite',
+			({ stores }) => {
+				transfer(stores);
+				return 'done';
+			}
+		);
+
+		expect(result).toBe('done');
+		expect(await db.store('accounts').getAll()).toEqual([
+			{ id: 'a', balance: 50 },
+			{ id: 'b', balance: 50 },
+		]);
+		expect(await db.store('log').count()).toBe(1);
+	});
+
+	it('rolls back and rethrows when the callback throws', async () => {
+		const db = await setupBank();
+		const failure = new Error('Insufficient funds');
+
+		await expect(
+			db.withTransaction(['accounts', 'log'], 'readwrite', ({ stores }) => {
+				transfer(stores);
+				throw failure;
+			})
+		).rejects.toBe(failure);
+
+		expect(await db.store('accounts').get('a')).toEqual({
+			id: 'a',
+			balance: 100,
+		});
+		expect(await db.store('log').count()).toBe(0);
+	});
+
+	it('rolls back and rejects with the request error when a write fails', async () => {
+		const db = await setupBank();
+
+		await expect(
+			db.withTransaction(['accounts', 'log'], 'readwrite', ({ stores }) => {
+				transfer(stores);
+				stores.log.add({ id: 1, amount: 50 });
+			})
+		).rejects.toMatchObject({ name: 'ConstraintError' });
+		await expect(
+			db.withStore('accounts', async store => {
+				store.put({ id: 'a', balance: 0 });
+				store.add({ id: 'b', balance: 100 });
+			})
+		).rejects.toMatchObject({ name: 'ConstraintError' });
+
+		expect(await db.store('accounts').getAll()).toEqual([
+			{ id: 'a', balance: 100 },
+			{ id: 'b', balance: 0 },
+		]);
+		expect(await db.store('log').count()).toBe(0);
+	});
+
+	it('rolls back when the abort signal fires', async () => {
+		const db = await setupBank();
+		const controller = new AbortController();
+
+		await expect(
+			db.withTransaction(
+				['accounts', 'log'],
+				'readwrite',
+				({ stores }) => {
+					transfer(stores);
+					controller.abort(new Error('Cancelled'));
+				},
+				{ signal: controller.signal }
+			)
+		).rejects.toThrow('Cancelled');
+
+		expect(await db.store('log').count()).toBe(0);
+	});
+
+	it('resolves withStore only after the transaction committed', async () => {
+		const db = await setupBank();
+		const onChange = vi.fn();
+		const unsuscribe = indexedDBChangeStore.suscribe(
+			db.store('log').dbName,
+			'log',
+			onChange
+		);
+
+		await db.withStore('log', async store => {
+			store.put({ id: 1, amount: 10 });
+		});
+		unsuscribe();
+
+		expect(onChange).toHaveBeenCalledTimes(1);
+		expect(await db.store('log').get(1)).toEqual({ id: 1, amount: 10 });
+	});
+});
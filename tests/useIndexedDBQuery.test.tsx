@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	type IndexedDBStoreApi,
+	keyRange,
+	useIndexedDB,
+} from '../src/useIndexedDB';
+import { useIndexedDBQuery } from '../src/useIndexedDBQuery';
+
+type Todo = { id: number; title: string };
+
+type Schema = { todos: Todo; notes: Todo };
+
+let database = 0;
+
+async function setup() {
+	const options = {
+		name: `indexeddb-query-test-${++database}`,
+		version: 1,
+		onUpgrade(db: IDBDatabase) {
+			db.createObjectStore('todos', { keyPath: 'id' });
+			db.createObjectStore('notes', { keyPath: 'id' });
+		},
+	};
+	const { result } = await renderHook(() => useIndexedDB<Schema>(options));
+	return result.current;
+}
+
+describe('useIndexedDBQuery', () => {
+	it('loads the query result on mount', async () => {
+		const db = await setup();
+		const todos = db.store('todos');
+		await todos.put({ id: 1, title: 'buy milk' });
+
+		const { result } = await renderHook(() =>
+			useIndexedDBQuery(todos, store => store.getAll())
+		);
+
+		await vi.waitFor(() => expect(result.current.isLoading).toBe(false));
+		expect(result.current.data).toEqual([{ id: 1, title: 'buy milk' }]);
+		expect(result.current.error).toBeNull();
+	});
+
+	it('re-runs when the store is written', async () => {
+		const db = await setup();
+		const todos = db.store('todos');
+		const { result } = await renderHook(() =>
+			useIndexedDBQuery(todos, store => store.count())
+		);
+		await vi.waitFor(() => expect(result.current.data).toBe(0));
+
+		await todos.add({ id: 1, title: 'buy milk' });
+		await vi.waitFor(() => expect(result.current.data).toBe(1));
+
+		await db.withStore('todos', async store => {
+			store.put({ id: 2, title: 'buy eggs' });
+		});
+		await vi.waitFor(() => expect(result.current.data).toBe(2));
+
+		await todos.batch([{ type: 'clear' }]);
+		await vi.waitFor(() => expect(result.current.data).toBe(0));
+	});
+
+	it('ignores writes to other stores', async () => {
+		const db = await setup();
+		const query = vi.fn((store: IndexedDBStoreApi<Todo>) => store.count());
+		const { result } = await renderHook(() =>
+			useIndexedDBQuery(db.store('todos'), query)
+		);
+		await vi.waitFor(() => expect(result.current.isFetching).toBe(false));
+
+		await db.store('notes').put({ id: 1, title: 'call mom' });
+
+		expect(query).toHaveBeenCalledTimes(1);
+	});
+
+	it('re-runs when its deps change', async () => {
+		const db = await setup();
+		const todos = db.store('todos');
+		await todos.batch([
+			{ type: 'put', value: { id: 1, title: 'buy milk' } },
+			{ type: 'put', value: { id: 2, title: 'walk the dog' } },
+		]);
+
+		const { result, rerender } = await renderHook(
+			(prefix?: string) =>
+				useIndexedDBQuery(
+					todos,
+					store =>
+						store
+							.getAll()
+							.then(items =>
+								items.filter(item => item.title.startsWith(prefix ?? ''))
+							),
+					{ deps: [prefix] }
+				),
+			{ initialProps: 'buy' }
+		);
+		await vi.waitFor(() =>
+			expect(result.current.data).toEqual([{ id: 1, title: 'buy milk' }])
+		);
+
+		await rerender('walk');
+		await vi.waitFor(() =>
+			expect(result.current.data).toEqual([{ id: 2, title: 'walk the dog' }])
+		);
+	});
+
+	it('does not query while disabled', async () => {
+		const db = await setup();
+		const query = vi.fn(
+			(store: IndexedDBStoreApi<Todo>) =>
+				store.get(keyRange.only(1)) as Promise<Todo | undefined>
+		);
+
+		const { result } = await renderHook(() =>
+			useIndexedDBQuery(db.store('todos'), query, { enabled: false })
+		);
+
+		expect(result.current.isLoading).toBe(false);
+		expect(query).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,171 @@
+import * as React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	createFetchClient,
+	createQueryCache,
+	QueryCacheProvider,
+} from '../src/useAsyncState';
+import { useInfiniteAsyncState } from '../src/useInfiniteAsyncState';
+
+type Page = { items: number[]; next: number | null; previous: number | null };
+
+const url = 'https://api.example.com/messages';
+
+function createPagedClient(lastPage = 3) {
+	const transport = vi.fn(async (request: Request) => {
+		const page = Number(new URL(request.url).searchParams.get('page'));
+		return Response.json({
+			items: [page * 10, page * 10 + 1],
+			next: page < lastPage ? page + 1 : null,
+			previous: page > 1 ? page - 1 : null,
+		} satisfies Page);
+	});
+	return { client: createFetchClient({ fetch: transport }), transport };
+}
+
+function withCache(cache = createQueryCache()) {
+	return ({ children }: { children: React.ReactNode }) => (
+		<QueryCacheProvider cache={cache}>{children}</QueryCacheProvider>
+	);
+}
+
+describe('useInfiniteAsyncState', () => {
+	it('fetches the initial page on mount', async () => {
+		const { client, transport } = createPagedClient();
+
+		const { result } = await renderHook(
+			() =>
+				useInfiniteAsyncState<Page>({
+					url,
+					client,
+					initialPageParam: 1,
+					getNextPageParam: page => page.next,
+				}),
+			{ wrapper: withCache() }
+		);
+
+		await vi.waitFor(() => expect(result.current.isSuccess).toBe(true));
+		expect(result.current.pages).toEqual([
+			{ items: [10, 11], next: 2, previous: null },
+		]);
+		expect(result.current.hasNextPage).toBe(true);
+		expect(transport.mock.calls[0]![0].url).toBe(`${url}?page=1`);
+	});
+
+	it('appends pages until getNextPageParam returns null', async () => {
+		const { client } = createPagedClient(2);
+
+		const { result, act } = await renderHook(
+			() =>
+				useInfiniteAsyncState<Page>({
+					url,
+					client,
+					initialPageParam: 1,
+					getNextPageParam: page => page.next,
+				}),
+			{ wrapper: withCache() }
+		);
+		await vi.waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+		await act(() => result.current.fetchNextPage());
+
+		expect(result.current.data?.pageParams).toEqual([1, 2]);
+		expect(result.current.pages.flatMap(page => page.items)).toEqual([
+			10, 11, 20, 21,
+		]);
+		expect(result.current.hasNextPage).toBe(false);
+	});
+
+	it('prepends previous pages and keeps at most maxPages', async () => {
+		const { client } = createPagedClient();
+
+		const { result, act } = await renderHook(
+			() =>
+				useInfiniteAsyncState<Page>({
+					url,
+					client,
+					initialPageParam: 2,
+					getNextPageParam: page => page.next,
+					getPreviousPageParam: page => page.previous,
+					maxPages: 2,
+				}),
+			{ wrapper: withCache() }
+		);
+		await vi.waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+		await act(() => result.current.fetchNextPage());
+		expect(result.current.data?.pageParams).toEqual([2, 3]);
+		expect(result.current.hasPreviousPage).toBe(true);
+
+		await act(() => result.current.fetchPreviousPage());
+		expect(result.current.data?.pageParams).toEqual([1, 2]);
+		expect(result.current.hasPreviousPage).toBe(false);
+	});
+
+	it('maps page params to query params with getPageParams', async () => {
+		const transport = vi.fn(async (_request: Request) =>
+			Response.json({ items: [], next: null, previous: null })
+		);
+
+		await renderHook(
+			() =>
+				useInfiniteAsyncState<Page, string>({
+					url,
+					client: createFetchClient({ fetch: transport }),
+					initialPageParam: 'abc',
+					getPageParams: cursor => ({ cursor, limit: 20 }),
+					getNextPageParam: () => null,
+				}),
+			{ wrapper: withCache() }
+		);
+
+		await vi.waitFor(() => expect(transport).toHaveBeenCalledTimes(1));
+		expect(transport.mock.calls[0]![0].url).toBe(`${url}?cursor=abc&limit=20`);
+	});
+
+	it('refetches every loaded page', async () => {
+		const { client, transport } = createPagedClient();
+
+		const { result, act } = await renderHook(
+			() =>
+				useInfiniteAsyncState<Page>({
+					url,
+					client,
+					initialPageParam: 1,
+					getNextPageParam: page => page.next,
+				}),
+			{ wrapper: withCache() }
+		);
+		await vi.waitFor(() => expect(result.current.isSuccess).toBe(true));
+		await act(() => result.current.fetchNextPage());
+		transport.mockClear();
+
+		await act(() => result.current.refetch());
+
+		expect(transport.mock.calls.map(([request]) => request.url)).toEqual([
+			`${url}?page=1`,
+			`${url}?page=2`,
+		]);
+		expect(result.current.data?.pageParams).toEqual([1, 2]);
+	});
+
+	it('does not fetch while disabled', async () => {
+		const { client, transport } = createPagedClient();
+
+		const { result } = await renderHook(
+			() =>
+				useInfiniteAsyncState<Page>({
+					url,
+					client,
+					enabled: false,
+					initialPageParam: 1,
+					getNextPageParam: page => page.next,
+				}),
+			{ wrapper: withCache() }
+		);
+
+		expect(result.current.isIdle).toBe(true);
+		expect(transport).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,309 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import { useLocalStorage } from '../src/useLocalStorage';
+
+beforeEach(() => {
+	window.localStorage.clear();
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+function limitStorage(maxLength: number) {
+	const setItem = Storage.prototype.setItem;
+	vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (
+		this: Storage,
+		key: string,
+		value: string
+	) {
+		let length = key.length + value.length;
+		for (let index = 0; index < this.length; index++) {
+			const other = this.key(index);
+			if (other === null || other === key) continue;
+			length += other.length + (this.getItem(other)?.length ?? 0);
+		}
+		if (length > maxLength) {
+			throw new DOMException('Quota exceeded', 'QuotaExceededError');
+		}
+		setItem.call(this, key, value);
+	});
+}
+
+describe('useLocalStorage', () => {
+	it('reads and writes JSON values with the helpers', async () => {
+		const { result } = await renderHook(() =>
+			useLocalStorage<{ theme: string }>('settings', {
+				fallback: { theme: 'light' },
+			})
+		);
+
+		expect(result.current.get()).toEqual({ theme: 'light' });
+
+		result.current.set({ theme: 'dark' });
+		expect(window.localStorage.getItem('settings')).toBe('{"theme":"dark"}');
+
+		result.current.update(prev => ({ theme: `${prev?.theme}-blue` }));
+		expect(result.current.get()).toEqual({ theme: 'dark-blue' });
+
+		result.current.remove();
+		expect(window.localStorage.getItem('settings')).toBeNull();
+	});
+
+	it('re-renders every reactive hook of a key when one of them writes', async () => {
+		const first = await renderHook(() =>
+			useLocalStorage<number>('count', { reactive: true, fallback: 0 })
+		);
+		const second = await renderHook(() =>
+			useLocalStorage<number>('count', { reactive: true, fallback: 0 })
+		);
+
+		await first.act(() => first.result.current[1](prev => (prev ?? 0) + 1));
+
+		expect(first.result.current[0]).toBe(1);
+		expect(second.result.current[0]).toBe(1);
+
+		await first.act(() => first.result.current[1](null));
+		expect(second.result.current[0]).toBe(0);
+	});
+
+	it('syncs with writes from other tabs', async () => {
+		const { result, act } = await renderHook(() =>
+			useLocalStorage<string>('name', { reactive: true })
+		);
+
+		await act(() => {
+			window.localStorage.setItem('name', '"Ada"');
+			window.dispatchEvent(
+				new StorageEvent('storage', {
+					key: 'name',
+					storageArea: window.localStorage,
+				})
+			);
+		});
+
+		expect(result.current[0]).toBe('Ada');
+	});
+
+	it('notifies every key when the storage is cleared', async () => {
+		const { result, act } = await renderHook(() =>
+			useLocalStorage<string>('name', { reactive: true })
+		);
+		const helpers = await renderHook(() => useLocalStorage<string>('other'));
+
+		await act(() => result.current[1]('Ada'));
+		await act(() => helpers.result.current.clear());
+
+		expect(result.current[0]).toBeNull();
+	});
+
+	it('keeps the identity of the value across renders with an inline fallback', async () => {
+		const { result, rerender, act } = await renderHook(() =>
+			useLocalStorage<{ theme: string }>('settings', {
+				reactive: true,
+				fallback: { theme: 'light' },
+			})
+		);
+		const fallback = result.current[0];
+
+		await rerender();
+		expect(result.current[0]).toBe(fallback);
+
+		await act(() => result.current[1]({ theme: 'dark' }));
+		const stored = result.current[0];
+		await rerender();
+
+		expect(stored).toEqual({ theme: 'dark' });
+		expect(result.current[0]).toBe(stored);
+	});
+
+	it('uses the custom serializer and deserializer', async () => {
+		const { result } = await renderHook(() =>
+			useLocalStorage<Date>('since', {
+				serialize: date => String(date.getTime()),
+				deserialize: raw => new Date(Number(raw)),
+			})
+		);
+
+		result.current.set(new Date(1000));
+
+		expect(window.localStorage.getItem('since')).toBe('1000');
+		expect(result.current.get()).toEqual(new Date(1000));
+	});
+
+	it('returns the fallback when the stored value is invalid', async () => {
+		window.localStorage.setItem('count', '"ten"');
+
+		const { result } = await renderHook(() =>
+			useLocalStorage<number>('count', {
+				reactive: true,
+				fallback: 0,
+				validate: value => typeof value === 'number',
+			})
+		);
+
+		expect(result.current[0]).toBe(0);
+	});
+
+	it('migrates values stored with an older version', async () => {
+		window.localStorage.setItem(
+			'user',
+			JSON.stringify({
+				__useLocalStorage: 1,
+				version: 1,
+				data: '"Ada Lovelace"',
+			})
+		);
+
+		const { result } = await renderHook(() =>
+			useLocalStorage<{ first: string; last: string }>('user', {
+				reactive: true,
+				version: 2,
+				migrate: (old, version) => {
+					expect(version).toBe(1);
+					const [first = '', last = ''] = (old as string).split(' ');
+					return { first, last };
+				},
+			})
+		);
+
+		expect(result.current[0]).toEqual({ first: 'Ada', last: 'Lovelace' });
+		expect(JSON.parse(window.localStorage.getItem('user') ?? '')).toMatchObject(
+			{
+				version: 2,
+				data: '{"first":"Ada","last":"Lovelace"}',
+			}
+		);
+	});
+
+	it('does not unwrap stored objects shaped like its own wrapper', async () => {
+		const { result } = await renderHook(() =>
+			useLocalStorage<{ data: string; version: number }>('record')
+		);
+
+		result.current.set({ data: 'x', version: 2 });
+
+		expect(result.current.get()).toEqual({ data: 'x', version: 2 });
+	});
+
+	it('ignores values written by a newer version', async () => {
+		window.localStorage.setItem(
+			'user',
+			JSON.stringify({
+				__useLocalStorage: 1,
+				version: 3,
+				data: '{"name":"Ada"}',
+			})
+		);
+
+		const { result } = await renderHook(() =>
+			useLocalStorage<{ name: string }>('user', {
+				version: 2,
+				fallback: { name: 'Guest' },
+				migrate: () => ({ name: 'Migrated' }),
+			})
+		);
+
+		expect(result.current.get()).toEqual({ name: 'Guest' });
+	});
+
+	it('prefixes keys with the namespace and clears only that namespace', async () => {
+		window.localStorage.setItem('global', '1');
+		const { result } = await renderHook(() =>
+			useLocalStorage<number>('count', { namespace: 'app' })
+		);
+
+		result.current.set(2);
+		expect(window.localStorage.getItem('app:count')).toBe('2');
+
+		result.current.clear();
+		expect(window.localStorage.getItem('app:count')).toBeNull();
+		expect(window.localStorage.getItem('global')).toBe('1');
+	});
+
+	it('expires values after their ttl', async () => {
+		vi.useFakeTimers();
+		const { result, act } = await renderHook(() =>
+			useLocalStorage<string>('session', {
+				reactive: true,
+				ttl: 1000,
+				fallback: 'guest',
+			})
+		);
+
+		await act(() => result.current[1]('Ada'));
+		expect(result.current[0]).toBe('Ada');
+
+		await act(() => vi.advanceTimersByTime(1000));
+		expect(result.current[0]).toBe('guest');
+		expect(window.localStorage.getItem('session')).toBeNull();
+	});
+
+	it('lets set override the ttl of a single value', async () => {
+		vi.useFakeTimers();
+		const { result } = await renderHook(() =>
+			useLocalStorage<string>('token', { ttl: 1000 })
+		);
+
+		result.current.set('abc', { ttl: 5000 });
+		vi.advanceTimersByTime(4999);
+		expect(result.current.get()).toBe('abc');
+
+		vi.advanceTimersByTime(1);
+		expect(result.current.get()).toBeNull();
+	});
+
+	it('keeps values in memory when the quota is exceeded', async () => {
+		limitStorage(10);
+		const onError = vi.fn();
+		const { result } = await renderHook(() =>
+			useLocalStorage<string>('draft', { onQuotaExceeded: 'memory', onError })
+		);
+
+		result.current.set('a long draft');
+
+		expect(window.localStorage.getItem('draft')).toBeNull();
+		expect(result.current.get()).toBe('a long draft');
+		expect(onError).toHaveBeenCalledWith(expect.any(DOMException));
+	});
+
+	it('throws when the quota is exceeded by default', async () => {
+		limitStorage(10);
+		const { result } = await renderHook(() => useLocalStorage<string>('draft'));
+
+		expect(() => result.current.set('a long draft')).toThrow(DOMException);
+	});
+
+	it('evicts the oldest entries of the namespace to make room', async () => {
+		const { result: first } = await renderHook(() =>
+			useLocalStorage<string>('first', {
+				namespace: 'cache',
+				onQuotaExceeded: 'evict',
+			})
+		);
+		const { result: second } = await renderHook(() =>
+			useLocalStorage<string>('second', {
+				namespace: 'cache',
+				onQuotaExceeded: 'evict',
+			})
+		);
+		vi.spyOn(Date, 'now').mockReturnValue(1000);
+		first.current.set('a');
+		vi.spyOn(Date, 'now').mockReturnValue(2000);
+		second.current.set('b');
+		limitStorage(150);
+
+		const { result: third } = await renderHook(() =>
+			useLocalStorage<string>('third', {
+				namespace: 'cache',
+				onQuotaExceeded: 'evict',
+			})
+		);
+		third.current.set('c');
+
+		expect(window.localStorage.getItem('cache:first')).toBeNull();
+		expect(second.current.get()).toBe('b');
+		expect(third.current.get()).toBe('c');
+	});
+});
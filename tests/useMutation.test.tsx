@@ -0,0 +1,335 @@
+import * as React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	createFetchClient,
+	createQueryCache,
+	getQueryKey,
+	type QueryCache,
+	QueryCacheProvider,
+} from '../src/useAsyncState';
+import { useMutation } from '../src/useMutation';
+
+const url = 'https://api.example.com/todos';
+
+function withCache(cache: QueryCache) {
+	return ({ children }: { children: React.ReactNode }) => (
+		<QueryCacheProvider cache={cache}>{children}</QueryCacheProvider>
+	);
+}
+
+describe('useMutation', () => {
+	it('resolves with the data and runs the callbacks in order', async () => {
+		const calls: string[] = [];
+
+		const { result, act } = await renderHook(
+			() =>
+				useMutation<string, string, string>({
+					mutationFn: async title => `saved ${title}`,
+					onMutate: () => {
+						calls.push('onMutate');
+						return 'context';
+					},
+					onSuccess: (data, _variables, context) => {
+						calls.push(`onSuccess ${data} ${context}`);
+					},
+					onSettled: (data, error) => {
+						calls.push(`onSettled ${data} ${error}`);
+					},
+				}),
+			{ wrapper: withCache(createQueryCache()) }
+		);
+
+		let data: string | undefined;
+		await act(async () => {
+			data = await result.current.mutateAsync('milk');
+		});
+
+		expect(data).toBe('saved milk');
+		expect(calls).toEqual([
+			'onMutate',
+			'onSuccess saved milk context',
+			'onSettled saved milk null',
+		]);
+		expect(result.current).toMatchObject({
+			data: 'saved milk',
+			variables: 'milk',
+			isSuccess: true,
+			isPending: false,
+		});
+	});
+
+	it('rolls back optimistic updates when the mutation fails', async () => {
+		const cache = createQueryCache();
+		const key = getQueryKey(url);
+		cache.setData(key, ['milk']);
+		const onError = vi.fn();
+
+		const { result, act } = await renderHook(
+			() =>
+				useMutation<string, string>({
+					mutationFn: async () => {
+						expect(cache.getSnapshot(key)?.data).toEqual(['milk', 'eggs']);
+						throw new Error('Server down');
+					},
+					onMutate: (title, { setQueryData }) => {
+						setQueryData<string[]>(url, previous => [
+							...(previous ?? []),
+							title,
+						]);
+					},
+					onError,
+				}),
+			{ wrapper: withCache(cache) }
+		);
+
+		await act(() => result.current.mutate('eggs'));
+
+		await vi.waitFor(() => expect(result.current.isError).toBe(true));
+		expect(result.current.error?.message).toBe('Server down');
+		expect(cache.getSnapshot(key)?.data).toEqual(['milk']);
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), 'eggs', undefined);
+	});
+
+	it('keeps optimistic updates when onSuccess throws', async () => {
+		const cache = createQueryCache();
+		const key = getQueryKey(url);
+		cache.setData(key, ['milk']);
+		const onError = vi.fn();
+
+		const { result } = await renderHook(
+			() =>
+				useMutation<string, string>({
+					mutationFn: async title => title,
+					onMutate: (title, { setQueryData }) => {
+						setQueryData<string[]>(url, previous => [
+							...(previous ?? []),
+							title,
+						]);
+					},
+					onSuccess: () => {
+						throw new Error('Toast failed');
+					},
+					onError,
+				}),
+			{ wrapper: withCache(cache) }
+		);
+
+		await expect(result.current.mutateAsync('eggs')).rejects.toThrow(
+			'Toast failed'
+		);
+
+		await vi.waitFor(() => expect(result.current.isSuccess).toBe(true));
+		expect(cache.getSnapshot(key)?.data).toEqual(['milk', 'eggs']);
+		expect(onError).not.toHaveBeenCalled();
+	});
+
+	it('invalidates the given queries after a success', async () => {
+		const cache = createQueryCache();
+		const key = getQueryKey(url);
+		const refetch = vi.fn(async () => ['milk', 'eggs']);
+		cache.suscribe(key, () => {});
+		await cache.fetch(key, refetch);
+
+		const { result, act } = await renderHook(
+			() =>
+				useMutation<void, string>({
+					mutationFn: async () => {},
+					invalidates: url,
+				}),
+			{ wrapper: withCache(cache) }
+		);
+
+		await act(() => result.current.mutateAsync('eggs'));
+
+		expect(refetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('runs mutations sharing a mutationKey one after another', async () => {
+		const order: string[] = [];
+		let release: () => void = () => {};
+
+		const { result, act } = await renderHook(
+			() =>
+				useMutation<void, string>({
+					mutationKey: 'todos',
+					mutationFn: async title => {
+						order.push(`start ${title}`);
+						if (title === 'first') {
+							await new Promise<void>(resolve => (release = resolve));
+						}
+						order.push(`end ${title}`);
+					},
+				}),
+			{ wrapper: withCache(createQueryCache()) }
+		);
+
+		let pending: Promise<unknown> = Promise.resolve();
+		await act(() => {
+			pending = Promise.all([
+				result.current.mutateAsync('first'),
+				result.current.mutateAsync('second'),
+			]);
+		});
+		expect(order).toEqual(['start first']);
+
+		await act(async () => {
+			release();
+			await pending;
+		});
+		expect(order).toEqual([
+			'start first',
+			'end first',
+			'start second',
+			'end second',
+		]);
+	});
+
+	it('fetches through the provided client', async () => {
+		const transport = vi.fn(async (_request: Request) =>
+			Response.json({ id: 1 })
+		);
+		const client = createFetchClient({
+			baseUrl: 'https://api.example.com',
+			fetch: transport,
+		});
+
+		const { result, act } = await renderHook(
+			() =>
+				useMutation<{ id: number }, string>({
+					client,
+					mutationFn: (title, { fetch }) =>
+						fetch('/todos', { method: 'POST', body: title }),
+				}),
+			{ wrapper: withCache(createQueryCache()) }
+		);
+
+		await act(() => result.current.mutateAsync('milk'));
+
+		const [request] = transport.mock.calls[0]!;
+		expect(request.url).toBe(url);
+		expect(request.method).toBe('POST');
+		expect(result.current.data).toEqual({ id: 1 });
+	});
+
+	it('aborts the pending mutation on reset', async () => {
+		let signal: AbortSignal | undefined;
+
+		const { result, act } = await renderHook(
+			() =>
+				useMutation<void, string>({
+					mutationFn: (_title, context) => {
+						signal = context.signal;
+						return new Promise(() => {});
+					},
+				}),
+			{ wrapper: withCache(createQueryCache()) }
+		);
+
+		await act(() => result.current.mutate('milk'));
+		expect(result.current.isPending).toBe(true);
+
+		await act(() => result.current.reset());
+		expect(signal?.aborted).toBe(true);
+		expect(result.current.isIdle).toBe(true);
+	});
+
+	it('ignores the failure of a mutation aborted by reset', async () => {
+		const onError = vi.fn();
+		const onSettled = vi.fn();
+
+		const { result, act } = await renderHook(
+			() =>
+				useMutation<void, string>({
+					mutationFn: (_title, { signal }) =>
+						new Promise((_resolve, reject) => {
+							signal.addEventListener('abort', () => reject(signal.reason));
+						}),
+					onError,
+					onSettled,
+				}),
+			{ wrapper: withCache(createQueryCache()) }
+		);
+
+		let mutation: Promise<void> = Promise.resolve();
+		await act(() => {
+			mutation = result.current.mutateAsync('milk');
+		});
+		await act(async () => {
+			result.current.reset();
+			await mutation.catch(() => undefined);
+		});
+
+		expect(result.current.isIdle).toBe(true);
+		expect(result.current.isError).toBe(false);
+		expect(onError).not.toHaveBeenCalled();
+		expect(onSettled).not.toHaveBeenCalled();
+	});
+
+	it('aborts every running and queued mutation on reset', async () => {
+		const signals: AbortSignal[] = [];
+		const mutationFn = vi.fn(
+			(_title: string, { signal }: { signal: AbortSignal }) =>
+				new Promise<void>((_resolve, reject) => {
+					signals.push(signal);
+					signal.addEventListener('abort', () => reject(signal.reason));
+				})
+		);
+
+		const { result, act } = await renderHook(
+			() => useMutation<void, string>({ mutationFn, mutationKey: 'todos' }),
+			{ wrapper: withCache(createQueryCache()) }
+		);
+
+		let mutations: Promise<unknown>[] = [];
+		await act(() => {
+			mutations = [
+				result.current.mutateAsync('milk'),
+				result.current.mutateAsync('eggs'),
+			];
+		});
+		await act(async () => {
+			result.current.reset();
+			await Promise.allSettled(mutations);
+		});
+
+		expect(mutationFn).toHaveBeenCalledTimes(1);
+		expect(signals[0]?.aborted).toBe(true);
+		await expect(mutations[1]).rejects.toThrow();
+		expect(result.current.isIdle).toBe(true);
+	});
+
+	it('runs onSettled and the client onError when onError throws', async () => {
+		const onSettled = vi.fn();
+		const onClientError = vi.fn();
+		const client = createFetchClient({ onError: onClientError });
+
+		const { result } = await renderHook(
+			() =>
+				useMutation<void, string>({
+					mutationFn: async () => {
+						throw new Error('Server down');
+					},
+					onError: () => {
+						throw new Error('Toast failed');
+					},
+					onSettled,
+					client,
+				}),
+			{ wrapper: withCache(createQueryCache()) }
+		);
+
+		await expect(result.current.mutateAsync('milk')).rejects.toThrow(
+			'Toast failed'
+		);
+		expect(onSettled).toHaveBeenCalledWith(
+			null,
+			expect.objectContaining({ message: 'Server down' }),
+			'milk',
+			undefined
+		);
+		expect(onClientError).toHaveBeenCalledWith(
+			expect.objectContaining({ message: 'Server down' })
+		);
+	});
+});
@@ -0,0 +1,233 @@
+import * as React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import { createFetchClient, FetchClientProvider } from '../src/useAsyncState';
+import {
+	type UseOfflineQueueOptions,
+	useOfflineQueue,
+} from '../src/useOfflineQueue';
+
+let database = 0;
+
+function setup(
+	transport: (request: Request) => Promise<Response>,
+	options: UseOfflineQueueOptions = {}
+) {
+	const client = createFetchClient({ fetch: transport });
+	const wrapper = ({ children }: { children: React.ReactNode }) => (
+		<FetchClientProvider client={client}>{children}</FetchClientProvider>
+	);
+	const dbName = `outbox-${++database}`;
+	return renderHook(() => useOfflineQueue({ dbName, ...options }), {
+		wrapper,
+	});
+}
+
+function goOnline() {
+	vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+	window.dispatchEvent(new Event('online'));
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('useOfflineQueue', () => {
+	it('keeps requests while offline and replays them once online', async () => {
+		vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+		const transport = vi.fn(async (_request: Request) =>
+			Response.json({ ok: true })
+		);
+		const onReplay = vi.fn();
+		const { result, act } = await setup(transport, { onReplay });
+
+		await act(async () => {
+			await result.current.enqueue('https://api.example.com/todos', {
+				method: 'POST',
+				body: '{"title":"milk"}',
+			});
+		});
+		expect(result.current.isOnline).toBe(false);
+		expect(result.current.pending).toHaveLength(1);
+		expect(transport).not.toHaveBeenCalled();
+
+		await act(() => goOnline());
+
+		await vi.waitFor(() => expect(result.current.pending).toHaveLength(0));
+		const [request] = transport.mock.calls[0]!;
+		expect(request.method).toBe('POST');
+		expect(await request.text()).toBe('{"title":"milk"}');
+		expect(onReplay).toHaveBeenCalledWith(
+			expect.objectContaining({ url: 'https://api.example.com/todos' }),
+			{ ok: true }
+		);
+	});
+
+	it('replays the entries in the order they were queued', async () => {
+		vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+		const urls: string[] = [];
+		const transport = vi.fn(async (request: Request) => {
+			urls.push(request.url);
+			return Response.json(null);
+		});
+		const { result, act } = await setup(transport);
+
+		await act(async () => {
+			await result.current.enqueue('https://api.example.com/1');
+			await result.current.enqueue('https://api.example.com/2');
+		});
+		await act(() => goOnline());
+
+		await vi.waitFor(() => expect(result.current.pending).toHaveLength(0));
+		expect(urls).toEqual([
+			'https://api.example.com/1',
+			'https://api.example.com/2',
+		]);
+	});
+
+	it('drops entries rejected with a client error', async () => {
+		vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+		const onError = vi.fn();
+		const { result, act } = await setup(
+			async () => new Response('Invalid', { status: 422 }),
+			{ onError }
+		);
+
+		await act(async () => {
+			await result.current.enqueue('https://api.example.com/todos');
+		});
+		await act(() => goOnline());
+
+		await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+		await vi.waitFor(() => expect(result.current.pending).toHaveLength(0));
+		expect(onError.mock.calls[0]![1].message).toBe('Invalid');
+	});
+
+	it('sends the entry again when onConflict asks to retry', async () => {
+		vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+		const transport = vi
+			.fn()
+			.mockResolvedValueOnce(new Response(null, { status: 409 }))
+			.mockResolvedValue(Response.json({ ok: true }));
+		const onConflict = vi.fn(() => 'retry' as const);
+		const { result, act } = await setup(transport, {
+			onConflict,
+			retryDelay: () => 10,
+		});
+
+		await act(async () => {
+			await result.current.enqueue('https://api.example.com/todos');
+		});
+		await act(() => goOnline());
+
+		await vi.waitFor(() => expect(transport).toHaveBeenCalledTimes(2));
+		await vi.waitFor(() => expect(result.current.pending).toHaveLength(0));
+		expect(onConflict).toHaveBeenCalledTimes(1);
+	});
+
+	it('retries after a server error with the retry delay', async () => {
+		vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+		const transport = vi
+			.fn()
+			.mockResolvedValueOnce(new Response('Unavailable', { status: 503 }))
+			.mockResolvedValue(Response.json({ ok: true }));
+		const retryDelay = vi.fn(() => 10);
+		const { result, act } = await setup(transport, { retryDelay });
+
+		await act(async () => {
+			await result.current.enqueue('https://api.example.com/todos');
+		});
+		await act(() => goOnline());
+
+		await vi.waitFor(() => expect(transport).toHaveBeenCalledTimes(2));
+		await vi.waitFor(() => expect(result.current.pending).toHaveLength(0));
+		expect(retryDelay).toHaveBeenCalledWith(1);
+	});
+
+	it('sends entries enqueued while a flush is running', async () => {
+		vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+		let respond: () => void = () => {};
+		const transport = vi
+			.fn()
+			.mockImplementationOnce(
+				() =>
+					new Promise<Response>(resolve => {
+						respond = () => resolve(Response.json(null));
+					})
+			)
+			.mockResolvedValue(Response.json(null));
+		const { result, act } = await setup(transport);
+
+		await act(async () => {
+			await result.current.enqueue('https://api.example.com/1');
+		});
+		await vi.waitFor(() => expect(transport).toHaveBeenCalledTimes(1));
+		await act(async () => {
+			await result.current.enqueue('https://api.example.com/2');
+		});
+		await act(() => respond());
+
+		await vi.waitFor(() => expect(transport).toHaveBeenCalledTimes(2));
+		await vi.waitFor(() => expect(result.current.pending).toHaveLength(0));
+	});
+
+	it('discards conflicting entries by default', async () => {
+		vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+		const transport = vi.fn(async (_request: Request) => {
+			return new Response(null, { status: 412 });
+		});
+		const { result, act } = await setup(transport);
+
+		await act(async () => {
+			await result.current.enqueue('https://api.example.com/todos');
+		});
+		await act(() => goOnline());
+
+		await vi.waitFor(() => expect(result.current.pending).toHaveLength(0));
+		expect(transport).toHaveBeenCalledTimes(1);
+	});
+
+	it('expires entries older than maxAge without sending them', async () => {
+		vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+		const transport = vi.fn(async (_request: Request) => Response.json(null));
+		const onExpire = vi.fn();
+		const { result, act } = await setup(transport, { maxAge: 1000, onExpire });
+
+		await act(async () => {
+			await result.current.enqueue('https://api.example.com/todos');
+		});
+		vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000);
+		await act(() => goOnline());
+
+		await vi.waitFor(() => expect(onExpire).toHaveBeenCalledTimes(1));
+		expect(transport).not.toHaveBeenCalled();
+	});
+
+	it('keeps flushing after another queue unmounts', async () => {
+		vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+		const transport = vi.fn(async (_request: Request) => Response.json(null));
+		const other = await setup(transport);
+		const { result, act } = await setup(transport);
+
+		await act(async () => {
+			await result.current.enqueue('https://api.example.com/todos');
+		});
+		await other.unmount();
+		await act(() => goOnline());
+
+		await vi.waitFor(() => expect(result.current.pending).toHaveLength(0));
+		expect(transport).toHaveBeenCalledTimes(1);
+	});
+
+	it('exposes errors raised while reading the outbox', async () => {
+		vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+			throw new Error('Storage blocked');
+		});
+
+		const { result } = await setup(async () => Response.json(null));
+
+		await vi.waitFor(() =>
+			expect(result.current.error?.message).toBe('Storage blocked')
+		);
+	});
+});
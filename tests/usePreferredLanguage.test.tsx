@@ -0,0 +1,70 @@
+import * as React from 'react';
+import { renderToString } from 'react-dom/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	systemLanguageStore,
+	usePreferredLanguage,
+	userLanguageStore,
+} from '../src/usePreferredLanguage';
+import {
+	createMemoryStorageAdapter,
+	localStorageAdapter,
+} from '../src/useStorage';
+
+beforeEach(() => {
+	window.localStorage.clear();
+});
+
+afterEach(() => {
+	userLanguageStore.setAdapter(localStorageAdapter);
+	userLanguageStore.setServerAdapter(null);
+});
+
+describe('usePreferredLanguage', () => {
+	it('stores the user language', async () => {
+		const { result, act } = await renderHook(() => usePreferredLanguage());
+
+		await act(() => result.current.setUserLanguage('es-PE'));
+
+		expect(result.current.language).toBe('es-PE');
+		expect(window.localStorage.getItem('preferred-language')).toBe('es-PE');
+	});
+
+	it('reads and writes the language through the configured adapter', async () => {
+		const adapter = createMemoryStorageAdapter({ 'preferred-language': 'fr' });
+		const { result, act } = await renderHook(() => usePreferredLanguage());
+
+		await act(() => userLanguageStore.setAdapter(adapter));
+		expect(result.current.language).toBe('fr');
+
+		await act(() => result.current.setUserLanguage('de'));
+		expect(adapter.getItem('preferred-language')).toBe('de');
+		expect(window.localStorage.getItem('preferred-language')).toBeNull();
+	});
+
+	it('notifies the subscribers of the user language once per change', async () => {
+		const user = vi.fn();
+		const system = vi.fn();
+		const unsuscribeUser = userLanguageStore.suscribe(user);
+		const unsuscribeSystem = systemLanguageStore.suscribe(system);
+
+		userLanguageStore.setAdapter(createMemoryStorageAdapter());
+		userLanguageStore.setLanguage('fr');
+		unsuscribeUser();
+		unsuscribeSystem();
+
+		expect(user).toHaveBeenCalledTimes(2);
+		expect(system).not.toHaveBeenCalled();
+	});
+
+	it('renders the language of the server adapter on the server', () => {
+		const adapter = createMemoryStorageAdapter({ 'preferred-language': 'fr' });
+		userLanguageStore.setServerAdapter(adapter);
+		function Language() {
+			return <>{usePreferredLanguage().language}</>;
+		}
+
+		expect(renderToString(<Language />)).toBe('fr');
+	});
+});
@@ -0,0 +1,95 @@
+import * as React from 'react';
+import { renderToString } from 'react-dom/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	systemThemeStore,
+	userThemeStore,
+	usePreferredTheme,
+} from '../src/usePreferredTheme';
+import {
+	createMemoryStorageAdapter,
+	localStorageAdapter,
+} from '../src/useStorage';
+
+beforeEach(() => {
+	window.localStorage.clear();
+});
+
+afterEach(() => {
+	userThemeStore.setAdapter(localStorageAdapter);
+	userThemeStore.setServerAdapter(null);
+});
+
+describe('usePreferredTheme', () => {
+	it('stores the user theme and toggles it', async () => {
+		const { result, act } = await renderHook(() => usePreferredTheme());
+
+		await act(() => result.current.setUserTheme('dark'));
+		expect(result.current.theme).toBe('dark');
+		expect(window.localStorage.getItem('preferred-theme')).toBe('dark');
+
+		await act(() => result.current.toggleTheme());
+		expect(result.current.userTheme).toBe('light');
+
+		await act(() => result.current.setUserTheme(null));
+		expect(result.current.userTheme).toBeNull();
+		expect(result.current.theme).toBe(result.current.systemTheme);
+	});
+
+	it('reads and writes the theme through the configured adapter', async () => {
+		const adapter = createMemoryStorageAdapter({ 'preferred-theme': 'sepia' });
+		const { result, act } = await renderHook(() => usePreferredTheme());
+
+		await act(() => userThemeStore.setAdapter(adapter));
+		expect(result.current.theme).toBe('sepia');
+
+		await act(() => result.current.setUserTheme('dark'));
+		expect(adapter.getItem('preferred-theme')).toBe('dark');
+		expect(window.localStorage.getItem('preferred-theme')).toBeNull();
+	});
+
+	it('re-renders when the adapter value changes elsewhere', async () => {
+		const adapter = createMemoryStorageAdapter();
+		userThemeStore.setAdapter(adapter);
+		const { result, act } = await renderHook(() => usePreferredTheme());
+
+		await act(() => adapter.setItem('preferred-theme', 'dark'));
+
+		expect(result.current.userTheme).toBe('dark');
+	});
+
+	it('follows the adapter set while mounted', async () => {
+		const adapter = createMemoryStorageAdapter();
+		const { result, act } = await renderHook(() => usePreferredTheme());
+
+		await act(() => userThemeStore.setAdapter(adapter));
+		await act(() => adapter.setItem('preferred-theme', 'dark'));
+		expect(result.current.userTheme).toBe('dark');
+	});
+
+	it('notifies the subscribers of the user theme once per change', async () => {
+		const user = vi.fn();
+		const system = vi.fn();
+		const unsuscribeUser = userThemeStore.suscribe(user);
+		const unsuscribeSystem = systemThemeStore.suscribe(system);
+
+		userThemeStore.setAdapter(createMemoryStorageAdapter());
+		userThemeStore.setTheme('dark');
+		unsuscribeUser();
+		unsuscribeSystem();
+
+		expect(user).toHaveBeenCalledTimes(2);
+		expect(system).not.toHaveBeenCalled();
+	});
+
+	it('renders the theme of the server adapter on the server', () => {
+		const adapter = createMemoryStorageAdapter({ 'preferred-theme': 'dark' });
+		userThemeStore.setServerAdapter(adapter);
+		function Theme() {
+			return <>{usePreferredTheme().theme}</>;
+		}
+
+		expect(renderToString(<Theme />)).toBe('dark');
+	});
+});
@@ -0,0 +1,304 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	createFetchEventSource,
+	type ServerSentEventSource,
+	useServerSentEvent,
+} from '../src/useServerSentEvent';
+
+class FakeEventSource {
+	static readonly CONNECTING = 0;
+	static readonly OPEN = 1;
+	static readonly CLOSED = 2;
+	static instances: FakeEventSource[] = [];
+
+	readyState = FakeEventSource.CONNECTING;
+	listeners = new Map<string, ((event: MessageEvent<string>) => void)[]>();
+	onopen: ((event: Event) => void) | null = null;
+	onmessage: ((event: MessageEvent<string>) => void) | null = null;
+	onerror: ((event: Event) => void) | null = null;
+
+	constructor(
+		public url: string,
+		public init?: EventSourceInit
+	) {
+		FakeEventSource.instances.push(this);
+	}
+
+	addEventListener(
+		type: string,
+		listener: (event: MessageEvent<string>) => void
+	) {
+		this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+	}
+
+	close() {
+		this.readyState = FakeEventSource.CLOSED;
+	}
+
+	open() {
+		this.readyState = FakeEventSource.OPEN;
+		this.onopen?.(new Event('open'));
+	}
+
+	emit(type: string, data: string, lastEventId = '') {
+		const event = new MessageEvent(type, { data, lastEventId });
+		if (type === 'message') this.onmessage?.(event);
+		this.listeners.get(type)?.forEach(listener => listener(event));
+	}
+
+	fail() {
+		this.readyState = FakeEventSource.CLOSED;
+		this.onerror?.(new Event('error'));
+	}
+}
+
+const url = 'https://api.example.com/stream';
+
+function streamResponse(chunks: string[]) {
+	const encoder = new TextEncoder();
+	return new Response(
+		new ReadableStream<Uint8Array>({
+			start(controller) {
+				chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+				controller.close();
+			},
+		}),
+		{ headers: { 'Content-Type': 'text/event-stream' } }
+	);
+}
+
+function mockFetch(...responses: Response[]) {
+	const fetch = vi.fn(
+		async (_url: string, _init: RequestInit) =>
+			responses.shift() ?? new Promise<Response>(() => {})
+	);
+	vi.stubGlobal('fetch', fetch);
+	return fetch;
+}
+
+function latestSource(): FakeEventSource {
+	const source = FakeEventSource.instances.at(-1);
+	if (!source) throw new Error('No event source was opened.');
+	return source;
+}
+
+beforeEach(() => {
+	FakeEventSource.instances = [];
+	vi.stubGlobal('EventSource', FakeEventSource);
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('useServerSentEvent', () => {
+	it('parses the data of the last message', async () => {
+		const { result, act } = await renderHook(() =>
+			useServerSentEvent<{ count: number }>(url, { parse: 'json' })
+		);
+
+		await act(() => {
+			latestSource().open();
+			latestSource().emit('message', '{"count":1}', '7');
+		});
+
+		expect(result.current.readyState).toBe(FakeEventSource.OPEN);
+		expect(result.current.data).toEqual({ count: 1 });
+		expect(result.current.lastEventId).toBe('7');
+	});
+
+	it('routes named events to their handlers', async () => {
+		const onUpdate = vi.fn();
+		const onMessage = vi.fn();
+		const { result, act } = await renderHook(() =>
+			useServerSentEvent(url, { events: { update: onUpdate }, onMessage })
+		);
+
+		await act(() => latestSource().emit('update', 'changed'));
+
+		expect(onUpdate).toHaveBeenCalledOnce();
+		expect(onMessage).not.toHaveBeenCalled();
+		expect(result.current.data).toBe('changed');
+	});
+
+	it('reconnects with the last event id once the browser gives up', async () => {
+		const { result, act } = await renderHook(() =>
+			useServerSentEvent(url, {
+				lastEventIdParam: 'lastEventId',
+				reconnectDelay: () => 10,
+			})
+		);
+
+		await act(() => {
+			latestSource().open();
+			latestSource().emit('message', 'hello', '42');
+			latestSource().fail();
+		});
+		expect(result.current.reconnectAttempt).toBe(1);
+
+		await vi.waitFor(() => expect(FakeEventSource.instances).toHaveLength(2));
+		expect(latestSource().url).toBe(`${url}?lastEventId=42`);
+
+		await act(() => latestSource().open());
+		expect(result.current.reconnectAttempt).toBe(0);
+	});
+
+	it('stops reconnecting after maxReconnectAttempts', async () => {
+		const onReconnectFailed = vi.fn();
+		const { act } = await renderHook(() =>
+			useServerSentEvent(url, {
+				maxReconnectAttempts: 1,
+				reconnectDelay: () => 10,
+				onReconnectFailed,
+			})
+		);
+
+		await act(() => latestSource().fail());
+		await vi.waitFor(() => expect(FakeEventSource.instances).toHaveLength(2));
+		await act(() => latestSource().fail());
+
+		expect(onReconnectFailed).toHaveBeenCalledOnce();
+		expect(FakeEventSource.instances).toHaveLength(2);
+	});
+
+	it('does not reconnect while the browser is retrying', async () => {
+		const { act } = await renderHook(() =>
+			useServerSentEvent(url, { reconnectDelay: () => 10 })
+		);
+
+		await act(() => latestSource().onerror?.(new Event('error')));
+		await new Promise(resolve => setTimeout(resolve, 30));
+
+		expect(FakeEventSource.instances).toHaveLength(1);
+	});
+	it('streams the events with fetch when transport is fetch', async () => {
+		const fetch = mockFetch(streamResponse(['data: {"count":1}\n\n']));
+		const { result } = await renderHook(() =>
+			useServerSentEvent<{ count: number }>(url, {
+				transport: 'fetch',
+				method: 'POST',
+				body: '{"prompt":"Hi"}',
+				parse: 'json',
+			})
+		);
+
+		await vi.waitFor(() => expect(result.current.data).toEqual({ count: 1 }));
+		expect(fetch.mock.calls[0]?.[1].method).toBe('POST');
+		expect(FakeEventSource.instances).toHaveLength(0);
+	});
+
+	it('sends the latest headers on the next connection without restarting the stream', async () => {
+		const fetch = mockFetch();
+		const { result, rerender, act } = await renderHook(
+			(token?: string) =>
+				useServerSentEvent(url, {
+					transport: 'fetch',
+					headers: { Authorization: `Bearer ${token}` },
+				}),
+			{ initialProps: 'first' }
+		);
+		await vi.waitFor(() => expect(fetch).toHaveBeenCalledOnce());
+
+		await rerender('second');
+		expect(fetch).toHaveBeenCalledOnce();
+
+		await act(() => result.current.reconnect());
+		await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+		const headers = new Headers(fetch.mock.calls[1]?.[1].headers);
+		expect(headers.get('Authorization')).toBe('Bearer second');
+	});
+});
+
+describe('createFetchEventSource', () => {
+	let source: ServerSentEventSource | null = null;
+
+	afterEach(() => {
+		source?.close();
+		source = null;
+		vi.unstubAllGlobals();
+	});
+
+	it('parses messages, named events and ids', async () => {
+		mockFetch(
+			streamResponse([
+				': keep-alive\n',
+				'data: hello\r',
+				'\ndata: world\r\n\r\n',
+				'event: update\nid: 7\ndata: {"a":1}\n\n',
+				'data\n\n',
+			])
+		);
+		const messages: MessageEvent<string>[] = [];
+		const updates: MessageEvent<string>[] = [];
+
+		source = createFetchEventSource(url);
+		source.onmessage = event => messages.push(event);
+		source.addEventListener('update', event => updates.push(event));
+
+		await vi.waitFor(() => expect(messages).toHaveLength(2));
+		expect(messages.map(event => event.data)).toEqual(['hello\nworld', '']);
+		expect(messages.map(event => event.lastEventId)).toEqual(['', '7']);
+		expect(updates).toHaveLength(1);
+		expect(updates[0]?.data).toBe('{"a":1}');
+		expect(updates[0]?.lastEventId).toBe('7');
+		expect(updates[0]?.origin).toBe('https://api.example.com');
+	});
+
+	it('sends the method, headers and body', async () => {
+		const fetch = mockFetch();
+
+		source = createFetchEventSource(url, {
+			method: 'POST',
+			headers: { Authorization: 'Bearer token' },
+			body: '{"prompt":"Hi"}',
+		});
+
+		await vi.waitFor(() => expect(fetch).toHaveBeenCalledOnce());
+		const init = fetch.mock.calls[0]?.[1];
+		const headers = new Headers(init?.headers);
+		expect(init?.method).toBe('POST');
+		expect(init?.body).toBe('{"prompt":"Hi"}');
+		expect(headers.get('Authorization')).toBe('Bearer token');
+		expect(headers.get('Accept')).toBe('text/event-stream');
+	});
+
+	it('reconnects after the stream ends, waiting retry and sending Last-Event-ID', async () => {
+		const fetch = mockFetch(
+			streamResponse(['retry: 10\nid: 42\ndata: first\n\n'])
+		);
+		const onerror = vi.fn();
+
+		source = createFetchEventSource(url);
+		source.onerror = onerror;
+
+		await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+		expect(onerror).toHaveBeenCalledOnce();
+		const headers = new Headers(fetch.mock.calls[1]?.[1].headers);
+		expect(headers.get('Last-Event-ID')).toBe('42');
+	});
+
+	it('closes without reconnecting on error responses', async () => {
+		const fetch = mockFetch(new Response('Unauthorized', { status: 401 }));
+		const onerror = vi.fn();
+
+		source = createFetchEventSource(url);
+		source.onerror = onerror;
+
+		await vi.waitFor(() => expect(onerror).toHaveBeenCalledOnce());
+		expect(source.readyState).toBe(2);
+		expect(fetch).toHaveBeenCalledOnce();
+	});
+
+	it('streams events when window is not defined', async () => {
+		mockFetch(streamResponse(['data: hello\n\n']));
+		vi.stubGlobal('window', undefined);
+		const messages: MessageEvent<string>[] = [];
+
+		source = createFetchEventSource(url);
+		source.onmessage = event => messages.push(event);
+
+		await vi.waitFor(() => expect(messages).toHaveLength(1));
+		expect(messages[0]?.origin).toBe('https://api.example.com');
+	});
+});
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	type AsyncStorageAdapter,
+	createCookieStorageAdapter,
+	createIndexedDBStorageAdapter,
+	createMemoryStorageAdapter,
+	moveStorageValue,
+	sessionStorageAdapter,
+	useStorage,
+} from '../src/useStorage';
+
+beforeEach(() => {
+	window.localStorage.clear();
+	window.sessionStorage.clear();
+});
+
+describe('createMemoryStorageAdapter', () => {
+	it('stores values and notifies the listeners of a key', () => {
+		const adapter = createMemoryStorageAdapter({ theme: 'dark' });
+		const calls: string[] = [];
+		adapter.suscribe('theme', () => calls.push('theme'));
+		adapter.suscribe('lang', () => calls.push('lang'));
+
+		adapter.setItem('theme', 'light');
+		adapter.removeItem('lang');
+		adapter.clear();
+
+		expect(calls).toEqual(['theme', 'lang', 'theme', 'lang']);
+		expect(adapter.keys()).toEqual([]);
+	});
+});
+
+describe('createCookieStorageAdapter', () => {
+	it('stores values as cookies', () => {
+		const adapter = createCookieStorageAdapter();
+
+		adapter.setItem('consent', 'yes');
+		expect(adapter.getItem('consent')).toBe('yes');
+		expect(adapter.keys()).toContain('consent');
+
+		adapter.removeItem('consent');
+		expect(adapter.getItem('consent')).toBeNull();
+	});
+});
+
+describe('moveStorageValue', () => {
+	it('copies the value to the target and removes it from the source', async () => {
+		const from = createMemoryStorageAdapter({ token: 'abc' });
+		const to = createMemoryStorageAdapter();
+
+		await moveStorageValue('token', from, to);
+
+		expect(to.getItem('token')).toBe('abc');
+		expect(from.getItem('token')).toBeNull();
+	});
+});
+
+describe('useStorage', () => {
+	it('reads and writes JSON values through the adapter', async () => {
+		const adapter = createMemoryStorageAdapter({ count: '1' });
+		const { result, act } = await renderHook(() =>
+			useStorage<number>('count', { adapter, fallback: 0 })
+		);
+
+		await vi.waitFor(() => expect(result.current.isReady).toBe(true));
+		expect(result.current.value).toBe(1);
+
+		await act(() => result.current.set(prev => (prev ?? 0) + 1));
+		expect(adapter.getItem('count')).toBe('2');
+		expect(result.current.value).toBe(2);
+
+		await act(() => result.current.remove());
+		expect(result.current.value).toBe(0);
+	});
+
+	it('reads synchronous adapters during the first render', async () => {
+		const adapter = createMemoryStorageAdapter({ count: '5' });
+		const renders: (number | null)[] = [];
+
+		await renderHook(() => {
+			const storage = useStorage<number>('count', { adapter, fallback: 0 });
+			renders.push(storage.value);
+			return storage;
+		});
+
+		expect(renders[0]).toBe(5);
+	});
+
+	it('shares writes between hooks using the same key', async () => {
+		const first = await renderHook(() =>
+			useStorage<string>('name', { adapter: sessionStorageAdapter })
+		);
+		const second = await renderHook(() =>
+			useStorage<string>('name', { adapter: sessionStorageAdapter })
+		);
+
+		await first.act(() => first.result.current.set('Ada'));
+
+		expect(window.sessionStorage.getItem('name')).toBe('"Ada"');
+		await vi.waitFor(() => expect(second.result.current.value).toBe('Ada'));
+	});
+
+	it('loads values from asynchronous adapters', async () => {
+		const adapter = createIndexedDBStorageAdapter({ name: 'use-storage-test' });
+		await adapter.setItem('draft', '"Hello"');
+
+		const { result, act } = await renderHook(() =>
+			useStorage<string>('draft', { adapter })
+		);
+
+		await vi.waitFor(() => expect(result.current.isReady).toBe(true));
+		expect(result.current.value).toBe('Hello');
+
+		await act(() => result.current.set('Bye'));
+		await vi.waitFor(() => expect(result.current.value).toBe('Bye'));
+		expect(await adapter.getItem('draft')).toBe('"Bye"');
+	});
+
+	it('is not ready for a new key until its value is read', async () => {
+		const reads = new Map<string, (raw: string | null) => void>();
+		const adapter: AsyncStorageAdapter = {
+			async: true,
+			getItem: key => new Promise(resolve => reads.set(key, resolve)),
+			setItem: async () => {},
+			removeItem: async () => {},
+			keys: async () => [],
+			clear: async () => {},
+			suscribe: () => () => {},
+		};
+		const { result, rerender, act } = await renderHook(
+			(key?: string) => useStorage<string>(key ?? 'first', { adapter }),
+			{ initialProps: 'first' }
+		);
+
+		await act(() => reads.get('first')?.('"A"'));
+		await vi.waitFor(() => expect(result.current.value).toBe('A'));
+		expect(result.current.isReady).toBe(true);
+
+		await rerender('second');
+		expect(result.current.isReady).toBe(false);
+		expect(result.current.value).toBeNull();
+
+		await act(() => reads.get('second')?.('"B"'));
+		await vi.waitFor(() => expect(result.current.isReady).toBe(true));
+		expect(result.current.value).toBe('B');
+	});
+});
@@ -0,0 +1,288 @@
+import * as React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import {
+	createFetchClient,
+	type FetchClient,
+	FetchClientProvider,
+} from '../src/useAsyncState';
+import { type UploadItem, useUpload } from '../src/useUpload';
+
+class FakeXMLHttpRequest {
+	static instances: FakeXMLHttpRequest[] = [];
+
+	method = '';
+	url = '';
+	body: unknown = null;
+	status = 0;
+	responseText = '';
+	withCredentials = false;
+	headers = new Map<string, string>();
+	responseHeaders = new Map<string, string>();
+	upload: { onprogress: ((event: ProgressEvent) => void) | null } = {
+		onprogress: null,
+	};
+	onload: (() => void) | null = null;
+	onerror: (() => void) | null = null;
+	onabort: (() => void) | null = null;
+
+	constructor() {
+		FakeXMLHttpRequest.instances.push(this);
+	}
+
+	open(method: string, url: string) {
+		this.method = method;
+		this.url = url;
+	}
+
+	setRequestHeader(key: string, value: string) {
+		this.headers.set(key, value);
+	}
+
+	getResponseHeader(key: string) {
+		return this.responseHeaders.get(key) ?? null;
+	}
+
+	send(body: unknown) {
+		this.body = body;
+	}
+
+	abort() {
+		this.onabort?.();
+	}
+
+	progress(loaded: number, total: number) {
+		this.upload.onprogress?.({
+			loaded,
+			total,
+			lengthComputable: true,
+		} as ProgressEvent);
+	}
+
+	respond(status: number, body: unknown) {
+		this.status = status;
+		this.responseText = typeof body === 'string' ? body : JSON.stringify(body);
+		if (typeof body !== 'string') {
+			this.responseHeaders.set('Content-Type', 'application/json');
+		}
+		this.onload?.();
+	}
+}
+
+function withClient(client: FetchClient) {
+	return ({ children }: { children: React.ReactNode }) => (
+		<FetchClientProvider client={client}>{children}</FetchClientProvider>
+	);
+}
+
+function createFile(name: string, size: number) {
+	return new File(['x'.repeat(size)], name, { type: 'text/plain' });
+}
+
+beforeEach(() => {
+	FakeXMLHttpRequest.instances = [];
+	vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest);
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('useUpload', () => {
+	it('sends each file as form data and tracks its progress', async () => {
+		const onFileSuccess = vi.fn();
+		const { result, act } = await renderHook(() =>
+			useUpload<{ id: number }>({
+				url: 'https://api.example.com/files',
+				fields: { folder: 'docs' },
+				headers: { 'X-Upload': 'yes' },
+				onFileSuccess,
+			})
+		);
+
+		let uploaded: Promise<unknown> = Promise.resolve();
+		await act(() => {
+			uploaded = result.current.upload([createFile('a.txt', 10)]);
+		});
+		await vi.waitFor(() =>
+			expect(FakeXMLHttpRequest.instances).toHaveLength(1)
+		);
+		const [xhr] = FakeXMLHttpRequest.instances;
+		expect(xhr?.method).toBe('POST');
+		expect(xhr?.url).toBe('https://api.example.com/files');
+		expect(xhr?.headers.get('x-upload')).toBe('yes');
+		const body = xhr?.body as FormData;
+		expect(body.get('folder')).toBe('docs');
+		expect((body.get('file') as File).name).toBe('a.txt');
+
+		await act(() => xhr?.progress(4, 10));
+		expect(result.current.uploads[0]?.status).toBe('uploading');
+		expect(result.current.progress.percent).toBe(40);
+
+		await act(async () => {
+			xhr?.respond(201, { id: 1 });
+			await uploaded;
+		});
+		expect(result.current.uploads[0]).toMatchObject({
+			status: 'success',
+			response: { id: 1 },
+		});
+		expect(result.current.isUploading).toBe(false);
+		expect(onFileSuccess).toHaveBeenCalledTimes(1);
+	});
+
+	it('sends the raw file when fieldName is null', async () => {
+		const { result, act } = await renderHook(() =>
+			useUpload({
+				url: file => `https://api.example.com/files/${file.name}`,
+				fieldName: null,
+			})
+		);
+		const file = createFile('a.txt', 3);
+
+		await act(() => {
+			result.current.upload([file]);
+		});
+		await vi.waitFor(() =>
+			expect(FakeXMLHttpRequest.instances).toHaveLength(1)
+		);
+
+		expect(FakeXMLHttpRequest.instances[0]?.url).toBe(
+			'https://api.example.com/files/a.txt'
+		);
+		expect(FakeXMLHttpRequest.instances[0]?.body).toBe(file);
+	});
+
+	it('limits the number of parallel uploads', async () => {
+		const onComplete = vi.fn();
+		const { result, act } = await renderHook(() =>
+			useUpload({
+				url: 'https://api.example.com/files',
+				concurrency: 2,
+				onComplete,
+			})
+		);
+
+		let uploaded: Promise<unknown> = Promise.resolve();
+		await act(() => {
+			uploaded = result.current.upload([
+				createFile('a.txt', 1),
+				createFile('b.txt', 1),
+				createFile('c.txt', 1),
+			]);
+		});
+		await vi.waitFor(() =>
+			expect(FakeXMLHttpRequest.instances).toHaveLength(2)
+		);
+
+		await act(async () => {
+			FakeXMLHttpRequest.instances[0]?.respond(200, 'ok');
+		});
+		await vi.waitFor(() =>
+			expect(FakeXMLHttpRequest.instances).toHaveLength(3)
+		);
+
+		await act(async () => {
+			FakeXMLHttpRequest.instances[1]?.respond(500, 'Server down');
+			FakeXMLHttpRequest.instances[2]?.respond(200, 'ok');
+			await uploaded;
+		});
+		const [items] = onComplete.mock.calls[0] as [UploadItem[]];
+		expect(items.map(item => item.status)).toEqual([
+			'success',
+			'error',
+			'success',
+		]);
+		expect(result.current.uploads[1]?.error?.message).toBe('Server down');
+	});
+
+	it('cancels uploading and pending files', async () => {
+		const { result, act } = await renderHook(() =>
+			useUpload({ url: 'https://api.example.com/files', concurrency: 1 })
+		);
+
+		let uploaded: Promise<unknown> = Promise.resolve();
+		await act(() => {
+			uploaded = result.current.upload([
+				createFile('a.txt', 1),
+				createFile('b.txt', 1),
+			]);
+		});
+		await vi.waitFor(() =>
+			expect(FakeXMLHttpRequest.instances).toHaveLength(1)
+		);
+		await act(async () => {
+			result.current.cancelAll();
+			await uploaded;
+		});
+
+		expect(result.current.uploads.map(item => item.status)).toEqual([
+			'cancelled',
+			'cancelled',
+		]);
+		expect(FakeXMLHttpRequest.instances).toHaveLength(1);
+	});
+
+	it('applies the client headers and request interceptors', async () => {
+		const client = createFetchClient({
+			baseUrl: 'https://api.example.com',
+			headers: { Authorization: 'Bearer token' },
+			interceptors: {
+				request: [
+					request => {
+						request.headers.set('X-Trace', 'upload');
+						return request;
+					},
+				],
+			},
+		});
+		const { result, act } = await renderHook(
+			() => useUpload({ url: '/files' }),
+			{ wrapper: withClient(client) }
+		);
+
+		await act(() => {
+			result.current.upload([createFile('a.txt', 1)]);
+		});
+
+		await vi.waitFor(() =>
+			expect(FakeXMLHttpRequest.instances).toHaveLength(1)
+		);
+		const [xhr] = FakeXMLHttpRequest.instances;
+		expect(xhr?.url).toBe('https://api.example.com/files');
+		expect(xhr?.headers.get('authorization')).toBe('Bearer token');
+		expect(xhr?.headers.get('x-trace')).toBe('upload');
+	});
+
+	it('lets the browser set the Content-Type of form data', async () => {
+		const client = createFetchClient({
+			headers: { 'Content-Type': 'application/octet-stream' },
+		});
+		const form = await renderHook(
+			() => useUpload({ url: 'https://api.example.com/files' }),
+			{ wrapper: withClient(client) }
+		);
+		const raw = await renderHook(
+			() =>
+				useUpload({ url: 'https://api.example.com/files', fieldName: null }),
+			{ wrapper: withClient(client) }
+		);
+
+		await form.act(() => {
+			form.result.current.upload([createFile('a.txt', 1)]);
+		});
+		await raw.act(() => {
+			raw.result.current.upload([createFile('b.txt', 1)]);
+		});
+
+		await vi.waitFor(() =>
+			expect(FakeXMLHttpRequest.instances).toHaveLength(2)
+		);
+		const [formXhr, rawXhr] = FakeXMLHttpRequest.instances;
+		expect(formXhr?.body).toBeInstanceOf(FormData);
+		expect(formXhr?.headers.has('content-type')).toBe(false);
+		expect(rawXhr?.headers.get('content-type')).toBe(
+			'application/octet-stream'
+		);
+	});
+});
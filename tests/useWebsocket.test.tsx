@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import { useWebsocket } from '../src/useWebsocket';
+
+class FakeWebSocket {
+	static readonly CONNECTING = 0;
+	static readonly OPEN = 1;
+	static readonly CLOSING = 2;
+	static readonly CLOSED = 3;
+	static instances: FakeWebSocket[] = [];
+
+	readyState = FakeWebSocket.CONNECTING;
+	binaryType: BinaryType = 'blob';
+	sent: unknown[] = [];
+	onopen: ((event: Event) => void) | null = null;
+	onmessage: ((event: MessageEvent) => void) | null = null;
+	onerror: ((event: Event) => void) | null = null;
+	onclose: ((event: CloseEvent) => void) | null = null;
+
+	constructor(
+		public url: string,
+		public protocols?: string | string[]
+	) {
+		FakeWebSocket.instances.push(this);
+	}
+
+	send(data: unknown) {
+		this.sent.push(data);
+	}
+
+	close(code = 1000, reason = '') {
+		this.disconnect(code, reason);
+	}
+
+	open() {
+		this.readyState = FakeWebSocket.OPEN;
+		this.onopen?.(new Event('open'));
+	}
+
+	receive(data: unknown) {
+		this.onmessage?.(new MessageEvent('message', { data }));
+	}
+
+	disconnect(code: number, reason = '') {
+		this.readyState = FakeWebSocket.CLOSED;
+		this.onclose?.(
+			Object.assign(new Event('close'), { code, reason }) as CloseEvent
+		);
+	}
+}
+
+let testId = 0;
+let url = '';
+
+function latestSocket(): FakeWebSocket {
+	const socket = FakeWebSocket.instances.at(-1);
+	if (!socket) throw new Error('No socket was opened.');
+	return socket;
+}
+
+beforeEach(() => {
+	FakeWebSocket.instances = [];
+	url = `wss://example.com/socket-${++testId}`;
+	vi.stubGlobal('WebSocket', FakeWebSocket);
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('useWebsocket', () => {
+	it('shares one socket between hooks using the same URL', async () => {
+		await renderHook(() => useWebsocket(url));
+		await renderHook(() => useWebsocket(url));
+
+		expect(FakeWebSocket.instances).toHaveLength(1);
+	});
+
+	it('queues messages until the connection opens', async () => {
+		const { result, act } = await renderHook(() => useWebsocket(url));
+
+		expect(result.current.send('hello')).toBe(false);
+		expect(latestSocket().sent).toEqual([]);
+
+		await act(() => latestSocket().open());
+
+		expect(result.current.readyState).toBe(FakeWebSocket.OPEN);
+		expect(latestSocket().sent).toEqual(['hello']);
+		expect(result.current.send('again')).toBe(true);
+	});
+
+	it('reports messages dropped from a full queue', async () => {
+		const onQueueOverflow = vi.fn();
+		const { result, act } = await renderHook(() =>
+			useWebsocket(url, { maxQueueSize: 1, onQueueOverflow })
+		);
+
+		result.current.send('first');
+		result.current.send('second');
+		await act(() => latestSocket().open());
+
+		expect(onQueueOverflow).toHaveBeenCalledExactlyOnceWith('first');
+		expect(latestSocket().sent).toEqual(['second']);
+	});
+
+	it('routes parsed messages to typed subscriptions', async () => {
+		type Message = { type: 'price'; price: number } | { type: 'trade' };
+		const { result, act } = await renderHook(() => useWebsocket<Message>(url));
+		const onPrice = vi.fn();
+		result.current.subscribe('price', onPrice);
+
+		await act(() => {
+			latestSocket().open();
+			latestSocket().receive('{"type":"trade"}');
+			latestSocket().receive('{"type":"price","price":10}');
+		});
+
+		expect(onPrice).toHaveBeenCalledOnce();
+		expect(onPrice.mock.calls[0]?.[0]).toEqual({ type: 'price', price: 10 });
+		expect(result.current.lastJsonMessage).toEqual({
+			type: 'price',
+			price: 10,
+		});
+	});
+
+	it('routes messages matching a filter to the subscription', async () => {
+		const { result, act } = await renderHook(() =>
+			useWebsocket<number>(url, { parse: event => Number(event.data) })
+		);
+		const onLarge = vi.fn();
+		result.current.subscribe(value => value > 10, onLarge);
+
+		await act(() => {
+			latestSocket().open();
+			latestSocket().receive('5');
+			latestSocket().receive('50');
+		});
+
+		expect(onLarge).toHaveBeenCalledOnce();
+		expect(onLarge).toHaveBeenCalledWith(50, expect.any(MessageEvent));
+	});
+
+	it('reconnects unexpected closes until maxReconnectAttempts', async () => {
+		const onReconnectFailed = vi.fn();
+		const { result, act } = await renderHook(() =>
+			useWebsocket(url, {
+				maxReconnectAttempts: 2,
+				reconnectDelay: () => 10,
+				onReconnectFailed,
+			})
+		);
+
+		await act(() => latestSocket().disconnect(1006));
+		expect(result.current.reconnectAttempt).toBe(1);
+		await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(2));
+
+		await act(() => latestSocket().disconnect(1006));
+		await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(3));
+
+		await act(() => latestSocket().disconnect(1006));
+		expect(onReconnectFailed).toHaveBeenCalledOnce();
+		expect(FakeWebSocket.instances).toHaveLength(3);
+	});
+
+	it('does not reconnect after a normal closure', async () => {
+		const { act } = await renderHook(() =>
+			useWebsocket(url, { reconnectDelay: () => 10 })
+		);
+
+		await act(() => latestSocket().disconnect(1000));
+		await new Promise(resolve => setTimeout(resolve, 30));
+
+		expect(FakeWebSocket.instances).toHaveLength(1);
+	});
+
+	it('connects hooks mounted after a reconnected socket closed', async () => {
+		const { act } = await renderHook(() =>
+			useWebsocket(url, { reconnectDelay: () => 10 })
+		);
+
+		await act(() => latestSocket().disconnect(1006));
+		await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(2));
+		await act(() => {
+			latestSocket().open();
+			latestSocket().disconnect(1000);
+		});
+
+		await renderHook(() => useWebsocket(url));
+
+		expect(FakeWebSocket.instances).toHaveLength(3);
+	});
+
+	it('closes the socket once the last hook unmounts', async () => {
+		const first = await renderHook(() => useWebsocket(url));
+		const second = await renderHook(() => useWebsocket(url));
+		const socket = latestSocket();
+
+		await first.unmount();
+		await new Promise(resolve => setTimeout(resolve, 0));
+		expect(socket.readyState).toBe(FakeWebSocket.CONNECTING);
+
+		await second.unmount();
+		await vi.waitFor(() =>
+			expect(socket.readyState).toBe(FakeWebSocket.CLOSED)
+		);
+	});
+});
@@ -0,0 +1,319 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from 'vitest-browser-react';
+import { RpcError, useWebsocketRpc } from '../src/useWebsocketRpc';
+
+class FakeWebSocket {
+	static readonly CONNECTING = 0;
+	static readonly OPEN = 1;
+	static readonly CLOSING = 2;
+	static readonly CLOSED = 3;
+	static instances: FakeWebSocket[] = [];
+
+	readyState = FakeWebSocket.CONNECTING;
+	binaryType: BinaryType = 'blob';
+	sent: unknown[] = [];
+	onopen: ((event: Event) => void) | null = null;
+	onmessage: ((event: MessageEvent) => void) | null = null;
+	onerror: ((event: Event) => void) | null = null;
+	onclose: ((event: CloseEvent) => void) | null = null;
+
+	constructor(
+		public url: string,
+		public protocols?: string | string[]
+	) {
+		FakeWebSocket.instances.push(this);
+	}
+
+	send(data: unknown) {
+		this.sent.push(data);
+	}
+
+	close(code = 1000, reason = '') {
+		this.disconnect(code, reason);
+	}
+
+	open() {
+		this.readyState = FakeWebSocket.OPEN;
+		this.onopen?.(new Event('open'));
+	}
+
+	receive(data: unknown) {
+		this.onmessage?.(new MessageEvent('message', { data }));
+	}
+
+	disconnect(code: number, reason = '') {
+		this.readyState = FakeWebSocket.CLOSED;
+		this.onclose?.(
+			Object.assign(new Event('close'), { code, reason }) as CloseEvent
+		);
+	}
+}
+
+let testId = 0;
+let url = '';
+
+function latestSocket(): FakeWebSocket {
+	const socket = FakeWebSocket.instances.at(-1);
+	if (!socket) throw new Error('No socket was opened.');
+	return socket;
+}
+
+beforeEach(() => {
+	FakeWebSocket.instances = [];
+	url = `wss://example.com/rpc-${++testId}`;
+	vi.stubGlobal('WebSocket', FakeWebSocket);
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+type Methods = {
+	add: { params: [number, number]; result: number };
+	slow: { params: undefined; result: never };
+};
+
+type Channels = { prices: number };
+
+function sentFrames(socket: FakeWebSocket) {
+	return socket.sent.map(data => JSON.parse(String(data)));
+}
+
+describe('useWebsocketRpc', () => {
+	it('resolves calls with the response matching their id', async () => {
+		const { result, act } = await renderHook(() =>
+			useWebsocketRpc<Methods>(url)
+		);
+		await act(() => latestSocket().open());
+
+		const sum = result.current.call('add', [1, 2]);
+		const [frame] = sentFrames(latestSocket());
+		expect(frame).toEqual({
+			jsonrpc: '2.0',
+			id: expect.any(Number),
+			method: 'add',
+			params: [1, 2],
+		});
+
+		latestSocket().receive(
+			JSON.stringify({ jsonrpc: '2.0', id: frame.id, result: 3 })
+		);
+		await expect(sum).resolves.toBe(3);
+	});
+
+	it('rejects calls with an RpcError on error responses', async () => {
+		const { result, act } = await renderHook(() =>
+			useWebsocketRpc<Methods>(url)
+		);
+		await act(() => latestSocket().open());
+
+		const sum = result.current.call('add', [1, 2]);
+		const [frame] = sentFrames(latestSocket());
+		latestSocket().receive(
+			JSON.stringify({
+				jsonrpc: '2.0',
+				id: frame.id,
+				error: { code: -32601, message: 'Method not found' },
+			})
+		);
+
+		const error = await sum.catch((error: unknown) => error);
+		expect(error).toBeInstanceOf(RpcError);
+		expect(error).toMatchObject({ message: 'Method not found', code: -32601 });
+	});
+
+	it('rejects calls without a response after the timeout', async () => {
+		const { result, act } = await renderHook(() =>
+			useWebsocketRpc<Methods>(url, { timeout: 10 })
+		);
+		await act(() => latestSocket().open());
+
+		await expect(result.current.call('slow', undefined)).rejects.toThrow(
+			'Call to "slow" timed out after 10ms.'
+		);
+	});
+
+	it('sends calls made before the connection opens once it does', async () => {
+		const { result, act } = await renderHook(() =>
+			useWebsocketRpc<Methods>(url)
+		);
+
+		const sum = result.current.call('add', [2, 2]);
+		expect(latestSocket().sent).toEqual([]);
+
+		await act(() => latestSocket().open());
+		const [frame] = sentFrames(latestSocket());
+		latestSocket().receive(
+			JSON.stringify({ jsonrpc: '2.0', id: frame.id, result: 4 })
+		);
+
+		await expect(sum).resolves.toBe(4);
+	});
+
+	it('rejects sent calls when the connection closes', async () => {
+		const { result, act } = await renderHook(() =>
+			useWebsocketRpc<Methods>(url, { reconnectDelay: () => 1000 })
+		);
+		await act(() => latestSocket().open());
+
+		const sum = result.current.call('add', [1, 2]);
+		const rejected = expect(sum).rejects.toThrow(
+			'Connection closed before a response was received.'
+		);
+		await act(() => latestSocket().disconnect(1006));
+
+		await rejected;
+	});
+
+	it('rejects calls flushed from the queue when the connection closes', async () => {
+		const { result, act } = await renderHook(() =>
+			useWebsocketRpc<Methods>(url, { reconnectDelay: () => 1000 })
+		);
+
+		const sum = result.current.call('add', [1, 2]);
+		const rejected = expect(sum).rejects.toThrow(
+			'Connection closed before a response was received.'
+		);
+		await act(() => latestSocket().open());
+		await act(() => latestSocket().disconnect(1006));
+
+		await rejected;
+	});
+
+	it('rejects calls right away when queueMessages is false', async () => {
+		const { result } = await renderHook(() =>
+			useWebsocketRpc<Methods>(url, { queueMessages: false })
+		);
+
+		await expect(result.current.call('add', [1, 2])).rejects.toThrow(
+			'Connection is not open.'
+		);
+	});
+
+	it('subscribes to channels and routes their notifications', async () => {
+		const { result, act } = await renderHook(() =>
+			useWebsocketRpc<Methods, Channels>(url)
+		);
+		const onPrice = vi.fn();
+		const unsubscribe = result.current.subscribe('prices', onPrice);
+
+		await act(() => latestSocket().open());
+		expect(sentFrames(latestSocket())).toEqual([
+			expect.objectContaining({
+				method: 'subscribe',
+				params: { channel: 'prices' },
+			}),
+		]);
+
+		latestSocket().receive(
+			JSON.stringify({
+				jsonrpc: '2.0',
+				method: 'message',
+				params: { channel: 'prices', data: 10 },
+			})
+		);
+		await vi.waitFor(() => expect(onPrice).toHaveBeenCalledWith(10));
+
+		unsubscribe();
+		expect(sentFrames(latestSocket()).at(-1)).toMatchObject({
+			method: 'unsubscribe',
+			params: { channel: 'prices' },
+		});
+	});
+
+	it('encodes and decodes frames with a custom codec', async () => {
+		const codec = {
+			encode: vi.fn((frame: object) => `rpc:${JSON.stringify(frame)}`),
+			decode: vi.fn((data: unknown) => JSON.parse(String(data).slice(4))),
+		};
+		const { result, act } = await renderHook(() =>
+			useWebsocketRpc<Methods>(url, { codec })
+		);
+		await act(() => latestSocket().open());
+
+		const sum = result.current.call('add', [1, 1]);
+		const [data] = latestSocket().sent;
+		const { id } = JSON.parse(String(data).slice(4));
+		latestSocket().receive(
+			`rpc:${JSON.stringify({ jsonrpc: '2.0', id, result: 2 })}`
+		);
+
+		await expect(sum).resolves.toBe(2);
+		expect(codec.encode).toHaveBeenCalledOnce();
+	});
+
+	it('reports messages that cannot be decoded', async () => {
+		const onDecodeError = vi.fn();
+		await renderHook(() => useWebsocketRpc(url, { onDecodeError }));
+
+		latestSocket().receive('not json');
+
+		await vi.waitFor(() =>
+			expect(onDecodeError).toHaveBeenCalledWith(
+				expect.any(SyntaxError),
+				expect.any(MessageEvent)
+			)
+		);
+	});
+
+	it('reports decode and handler errors without onDecodeError', async () => {
+		const reportError = vi.fn();
+		vi.stubGlobal('reportError', reportError);
+		const { result } = await renderHook(() =>
+			useWebsocketRpc<Methods, Channels>(url)
+		);
+		const failure = new Error('Handler failed');
+		result.current.subscribe('prices', () => {
+			throw failure;
+		});
+
+		latestSocket().receive('not json');
+		latestSocket().receive(
+			JSON.stringify({
+				jsonrpc: '2.0',
+				method: 'message',
+				params: { channel: 'prices', data: 10 },
+			})
+		);
+
+		await vi.waitFor(() => expect(reportError).toHaveBeenCalledTimes(2));
+		expect(reportError).toHaveBeenCalledWith(expect.any(SyntaxError));
+		expect(reportError).toHaveBeenCalledWith(failure);
+	});
+
+	it('rejects pending calls when the component unmounts', async () => {
+		const { result, act, unmount } = await renderHook(() =>
+			useWebsocketRpc<Methods>(url)
+		);
+		await act(() => latestSocket().open());
+
+		const slow = result.current.call('slow', undefined);
+		const rejected = expect(slow).rejects.toThrow(
+			'Component unmounted before a response was received.'
+		);
+		await unmount();
+
+		await rejected;
+	});
+
+	it('rejects calls dropped from a full queue', async () => {
+		const { result, act } = await renderHook(() =>
+			useWebsocketRpc<Methods>(url, { maxQueueSize: 1 })
+		);
+
+		const first = result.current.call('add', [1, 1]);
+		const dropped = expect(first).rejects.toThrow(
+			'Call dropped because the message queue is full.'
+		);
+		const second = result.current.call('add', [2, 2]);
+		await dropped;
+
+		await act(() => latestSocket().open());
+		const [frame] = sentFrames(latestSocket());
+		expect(frame).toMatchObject({ params: [2, 2] });
+		latestSocket().receive(
+			JSON.stringify({ jsonrpc: '2.0', id: frame.id, result: 4 })
+		);
+		await expect(second).resolves.toBe(4);
+	});
+});